@@ -0,0 +1,756 @@
+import os from 'node:os';
+import type {
+    AggregateOptions,
+    Aggregation,
+    AnalyzeOptions,
+    Assistant,
+    BudgetConfig,
+    BudgetEvaluation,
+    BudgetScope,
+    BudgetViolation,
+    DailyStats,
+    DiscoveredLogs,
+    FileDiagnostics,
+    GroupDimension,
+    LogResponseUsage,
+    LogSessionUsage,
+    ParseCache,
+    ParseCacheStats,
+    PremiumPlan,
+    PricingTable,
+    SessionAnalysis,
+    SessionContext,
+    SessionDataSource,
+    SessionDiagnostic,
+    SessionFilterOptions,
+    SessionModelUsage,
+    SessionRecord,
+    SessionUsage,
+    SourceLogs,
+    TimeUnit,
+    TokenCounter,
+    TokenUsage,
+    ToolAggregateOptions,
+    ToolAggregation,
+    ToolCallRecord,
+    ToolStats,
+    UnknownModelDiagnostic,
+    UsageLogRecord,
+    UsageSnapshot,
+    UserMessageRecord
+} from './types.js';
+import { DEFAULT_PARSE_CACHE_FILE, createEmptyParseCache, loadParseCache, parseWithCache, saveParseCache } from './cache.js';
+import { getAggregationKey, getNextAggregationKey, isWithinDateRange } from './dates.js';
+import { discoverLogs, readWorkspaceFile } from './discovery.js';
+import { parseSessionFileFrom } from './parser.js';
+import { calculateCost, DEFAULT_PREMIUM_PLAN, getPremiumMultiplier, loadPricingTable, resolvePricingKey } from './pricing.js';
+import { discoverSources, getSourceAdapter } from './sources.js';
+import { createTokenCounter, isBpeAvailable } from './tokenizer.js';
+import { addSessionToStats, addTokenUsage, createEmptyStats, createEmptyUsage } from './tokens.js';
+
+// Group value for sessions without repository, branch or cwd information
+export const UNKNOWN_GROUP_VALUE = '(unknown)';
+
+interface ParseCacheContext {
+    previous: ParseCache;
+    next: ParseCache;
+    stats: ParseCacheStats;
+}
+
+// Responses without an ID are matched on their timestamp and token counts
+function getResponseKey(record: UsageLogRecord): string {
+    return record.responseId
+        ? `${record.sessionId}:${record.responseId}`
+        : `${record.sessionId}@${record.timestamp}:${record.inputTokens}:${record.outputTokens}:${record.cachedInputTokens}:${record.cacheWriteTokens}:${record.reasoningTokens}`;
+}
+
+// Usage records of the local logs of each assistant, then of each snapshot in order. A response
+// seen in an earlier source is skipped, so overlapping snapshots and logs are counted once.
+// Files with parse issues are added to `fileDiagnostics`.
+async function analyzeUsageLogFiles(sources: SourceLogs[], cache: ParseCacheContext, countTokens: TokenCounter, machine: string, snapshots: UsageSnapshot[], fileDiagnostics: FileDiagnostics[]): Promise<Map<string, LogSessionUsage>> {
+    const usageBySession = new Map<string, LogSessionUsage>();
+    const seenInEarlierSources = new Set<string>();
+    let seenInSource = new Set<string>();
+
+    const endSource = () => {
+        for (const key of seenInSource) {
+            seenInEarlierSources.add(key);
+        }
+        seenInSource = new Set<string>();
+    };
+
+    const addRecord = (record: UsageLogRecord, recordMachine: string, assistant: Assistant) => {
+        const sessionId = record.sessionId;
+        const dedupeKey = getResponseKey(record);
+        // Within one source, only responses with an ID are known to be repeats
+        if (seenInEarlierSources.has(dedupeKey) || (record.responseId && seenInSource.has(dedupeKey))) {
+            return;
+        }
+        seenInSource.add(dedupeKey);
+
+        const contextTimestamp = record.timestamp ? new Date(record.timestamp) : null;
+        const response: LogResponseUsage = {
+            responseId: record.responseId,
+            timestamp: contextTimestamp,
+            model: record.model,
+            inputTokens: record.inputTokens,
+            outputTokens: record.outputTokens,
+            cachedInputTokens: record.cachedInputTokens,
+            cacheWriteTokens: record.cacheWriteTokens,
+            reasoningTokens: record.reasoningTokens
+        };
+
+        const existing = usageBySession.get(sessionId);
+        if (existing) {
+            existing.responses.push(response);
+            addTokenUsage(existing, response);
+            if (existing.model === 'default' && record.model) {
+                existing.model = record.model;
+            }
+            if (contextTimestamp && (!existing.timestamp || contextTimestamp < existing.timestamp)) {
+                existing.timestamp = contextTimestamp;
+            }
+            if (record.estimated) {
+                existing.estimated = true;
+            }
+        } else {
+            const sessionUsage: LogSessionUsage = {
+                ...createEmptyUsage(),
+                model: record.model || 'default',
+                timestamp: contextTimestamp,
+                responses: [response],
+                machine: recordMachine,
+                assistant,
+                estimated: record.estimated === true
+            };
+            addTokenUsage(sessionUsage, response);
+            usageBySession.set(sessionId, sessionUsage);
+        }
+    };
+
+    for (const source of sources) {
+        const adapter = getSourceAdapter(source.assistant);
+        for (const filePath of source.files) {
+            const fileState = await parseWithCache(filePath, cache.previous.usageLogFiles, cache.next.usageLogFiles, cache.stats,
+                (logFile, stat, resumeFrom) => adapter.parse(logFile, stat, resumeFrom, countTokens));
+            if (!fileState) continue;
+            if (fileState.issueCount > 0) {
+                fileDiagnostics.push({ file: filePath, type: 'usage-log', assistant: source.assistant, issues: fileState.issues, issueCount: fileState.issueCount });
+            }
+
+            for (const record of fileState.records) {
+                addRecord(record, machine, source.assistant);
+            }
+        }
+    }
+    endSource();
+
+    for (const snapshot of snapshots) {
+        for (const session of snapshot.sessions) {
+            for (const response of session.responses) {
+                addRecord({ ...response, sessionId: session.sessionId }, session.machine, session.assistant || 'copilot-cli');
+            }
+        }
+        endSource();
+    }
+
+    return usageBySession;
+}
+
+function createEmptyDiscoveredLogs(): DiscoveredLogs {
+    return { sessionDirs: [], logDirs: [], sessionFiles: [], workspaceFiles: new Map(), usageLogFiles: [] };
+}
+
+// Tokens, cost and billable requests of each model of a session. Usage-log responses are
+// priced with their own model, or the session's first logged model when they name none, and
+// each distinct response is a request at its model's premium multiplier. Sessions without
+// responses are priced as their model, with a request per user.message turn.
+function priceSessionModels(sessionTokens: TokenUsage, sessionModel: string, usageFromLogs: LogSessionUsage | undefined, userMessages: UserMessageRecord[], pricingTable: PricingTable): SessionModelUsage[] {
+    if (!usageFromLogs || usageFromLogs.responses.length === 0) {
+        const pricingKey = resolvePricingKey(sessionModel, pricingTable);
+        const requests = usageFromLogs ? 0 : userMessages.length;
+        return [{
+            model: sessionModel,
+            pricingKey,
+            inputTokens: sessionTokens.inputTokens,
+            outputTokens: sessionTokens.outputTokens,
+            cachedInputTokens: sessionTokens.cachedInputTokens,
+            cacheWriteTokens: sessionTokens.cacheWriteTokens,
+            reasoningTokens: sessionTokens.reasoningTokens,
+            cost: calculateCost(pricingTable[pricingKey], sessionTokens),
+            requests,
+            premiumRequests: requests * getPremiumMultiplier(pricingTable[pricingKey]),
+            premiumCost: 0
+        }];
+    }
+
+    const models = new Map<string, SessionModelUsage>();
+    const seenResponseIds = new Set<string>();
+    for (const response of usageFromLogs.responses) {
+        const model = response.model || usageFromLogs.model;
+        let entry = models.get(model);
+        if (!entry) {
+            entry = { model, pricingKey: resolvePricingKey(model, pricingTable), ...createEmptyUsage(), cost: 0, requests: 0, premiumRequests: 0, premiumCost: 0 };
+            models.set(model, entry);
+        }
+        addTokenUsage(entry, response);
+        entry.cost += calculateCost(pricingTable[entry.pricingKey], response);
+
+        if (response.responseId) {
+            if (seenResponseIds.has(response.responseId)) continue;
+            seenResponseIds.add(response.responseId);
+        }
+        entry.requests++;
+        entry.premiumRequests += getPremiumMultiplier(pricingTable[entry.pricingKey]);
+    }
+    return [...models.values()];
+}
+
+// Spend each calendar month's allowance on its sessions in start order;
+// the premium requests beyond it are charged to the sessions that made them
+function allocatePremiumAllowance(records: SessionRecord[], plan: PremiumPlan) {
+    const remainingByMonth = new Map<string, number>();
+    for (const record of [...records].sort((a, b) => a.date.getTime() - b.date.getTime())) {
+        const month = getAggregationKey(record.date, 'month');
+        const remaining = remainingByMonth.get(month) ?? plan.allowance;
+        const included = Math.min(remaining, record.premiumRequests);
+        remainingByMonth.set(month, remaining - included);
+        record.premiumCost = (record.premiumRequests - included) * plan.overagePrice;
+        for (const part of record.models) {
+            part.premiumCost = record.premiumRequests > 0 ? record.premiumCost * part.premiumRequests / record.premiumRequests : 0;
+        }
+    }
+}
+
+// Raw model names that no pricing entry matched, with the volume priced as 'default'
+function findUnknownModels(records: SessionRecord[]): UnknownModelDiagnostic[] {
+    const models = new Map<string, UnknownModelDiagnostic>();
+    for (const record of records) {
+        for (const part of record.models) {
+            if (part.pricingKey !== 'default') continue;
+            let entry = models.get(part.model);
+            if (!entry) {
+                entry = { model: part.model, sessions: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+                models.set(part.model, entry);
+            }
+            entry.sessions++;
+            entry.inputTokens += part.inputTokens;
+            entry.outputTokens += part.outputTokens;
+            entry.cost += part.cost;
+        }
+    }
+    return [...models.values()].sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens));
+}
+
+// Parse all discovered logs and imported snapshots into priced, filtered session records.
+// Usage-log totals take precedence over session-state estimates for the same session.
+export async function analyzeSessions(options: AnalyzeOptions = {}): Promise<SessionAnalysis> {
+    const readLogs = options.readLogs ?? true;
+    const snapshots = options.snapshots || [];
+    const assistantFilter = options.assistants || null;
+    const selectsAssistant = (assistant: Assistant) => !assistantFilter || assistantFilter.includes(assistant);
+    // The logs of every assistant are read, as they share the premium allowance; the
+    // assistant filter narrows the results. Session-state logs only exist for the Copilot CLI.
+    const allLogs = readLogs ? discoverLogs(options) : createEmptyDiscoveredLogs();
+    const allSources = readLogs ? discoverSources(options) : [];
+    const logs = selectsAssistant('copilot-cli') ? allLogs : createEmptyDiscoveredLogs();
+    const sources = allSources.filter(source => selectsAssistant(source.assistant));
+    const roots = [...logs.sessionDirs, ...sources.flatMap(source => source.roots)];
+    if (readLogs && snapshots.length === 0 && !roots.some(root => root.exists)) {
+        throw new Error(`Directory not found: ${roots.map(root => root.path).join(' or ')}`);
+    }
+
+    const pricingTable = options.pricingTable || loadPricingTable();
+    const since = options.since || null;
+    const until = options.until || null;
+    const repoFilter = options.repos || null;
+    const dataSourceFilter = options.dataSources || null;
+    const machine = options.machine || os.hostname();
+    // The heuristic is the fallback when the BPE vocabularies are not installed
+    const tokenizer = (options.tokenizer || 'bpe') === 'bpe' && isBpeAvailable() ? 'bpe' : 'heuristic';
+    const countTokens = createTokenCounter(tokenizer);
+    const useCache = readLogs && (options.cache?.enabled ?? true);
+    const cacheFile = options.cache?.file || DEFAULT_PARSE_CACHE_FILE;
+    const previousCache = options.cache?.previous?.tokenizer === tokenizer ? options.cache.previous : null;
+    const files = allLogs.sessionFiles;
+    const cache: ParseCacheContext = {
+        previous: previousCache || (useCache && !options.cache?.rebuild ? loadParseCache(cacheFile, tokenizer) : createEmptyParseCache(tokenizer)),
+        // Only files seen in this run are kept, which prunes deleted logs
+        next: createEmptyParseCache(tokenizer),
+        stats: { hits: 0, resumed: 0, misses: 0 }
+    };
+    const fileDiagnostics: FileDiagnostics[] = [];
+    const sessionDiagnostics: SessionDiagnostic[] = [];
+    const usageFromLogsBySession = await analyzeUsageLogFiles(allSources, cache, countTokens, machine, snapshots, fileDiagnostics);
+
+    // Every session, before filtering: the premium allowance is used up by all of them
+    const allSessions: SessionRecord[] = [];
+    const sessionStateUsage = new Map<string, SessionUsage>();
+    const toolCallsBySession = new Map<string, ToolCallRecord[]>();
+    const userMessagesBySession = new Map<string, UserMessageRecord[]>();
+
+    const workspaceContextCache = new Map<string, SessionContext>();
+    const getWorkspaceContext = (sessionId: string): SessionContext => {
+        let context = workspaceContextCache.get(sessionId);
+        if (!context) {
+            const workspaceFile = allLogs.workspaceFiles.get(sessionId);
+            context = workspaceFile ? readWorkspaceFile(workspaceFile) : {};
+            workspaceContextCache.set(sessionId, context);
+        }
+        return context;
+    };
+
+    const filters: SessionFilterOptions = { since, until, repos: repoFilter, dataSources: dataSourceFilter, assistants: assistantFilter };
+    const addSessionUsage = (sessionId: string, sessionDateObj: Date, sessionTokens: TokenUsage, sessionModel: string, sessionContext: SessionContext, dataSource: SessionDataSource, sessionMachine: string, assistant: Assistant) => {
+        // Determine pricing for this session
+        const pricingKey = resolvePricingKey(sessionModel, pricingTable);
+        // A session only has log usage when its totals come from it, estimated or not
+        const usageFromLogs = usageFromLogsBySession.get(sessionId);
+        const models = priceSessionModels(sessionTokens, sessionModel, usageFromLogs, userMessagesBySession.get(sessionId) || [], pricingTable);
+        if (!getSourceAdapter(assistant).premiumRequests) {
+            for (const part of models) part.premiumRequests = 0;
+        }
+
+        const record: SessionRecord = {
+            sessionId,
+            date: sessionDateObj,
+            inputTokens: sessionTokens.inputTokens,
+            outputTokens: sessionTokens.outputTokens,
+            cachedInputTokens: sessionTokens.cachedInputTokens,
+            cacheWriteTokens: sessionTokens.cacheWriteTokens,
+            reasoningTokens: sessionTokens.reasoningTokens,
+            model: sessionModel,
+            pricingKey,
+            cost: models.reduce((sum, entry) => sum + entry.cost, 0),
+            models,
+            context: sessionContext,
+            dataSource,
+            machine: sessionMachine,
+            assistant,
+            requests: models.reduce((sum, entry) => sum + entry.requests, 0),
+            premiumRequests: models.reduce((sum, entry) => sum + entry.premiumRequests, 0),
+            premiumCost: 0
+        };
+        allSessions.push(record);
+    };
+
+    for (const filePath of files) {
+        const fileState = await parseWithCache(filePath, cache.previous.sessionFiles, cache.next.sessionFiles, cache.stats,
+            (sessionFile, stat, resumeFrom) => parseSessionFileFrom(sessionFile, stat, resumeFrom, countTokens));
+        if (!fileState) continue;
+        if (fileState.issueCount > 0) {
+            fileDiagnostics.push({ file: filePath, type: 'session-state', assistant: 'copilot-cli', issues: fileState.issues, issueCount: fileState.issueCount });
+        }
+
+        const sessionId = fileState.sessionId;
+        const sessionDateObj = fileState.startTime ? new Date(fileState.startTime) : null;
+        const toolCalls = Object.values(fileState.toolCalls);
+        if (toolCalls.length > 0) {
+            toolCallsBySession.set(sessionId, [...(toolCallsBySession.get(sessionId) || []), ...toolCalls]);
+        }
+        if (fileState.userMessages.length > 0) {
+            userMessagesBySession.set(sessionId, [...(userMessagesBySession.get(sessionId) || []), ...fileState.userMessages]);
+        }
+        const sessionInputTokens =
+            fileState.inputTokensFromTruncationSum > 0
+                ? fileState.inputTokensFromTruncationSum
+                : fileState.inputTokensFromMessages;
+        const sessionOutputTokens = fileState.outputTokens;
+        const sessionModel = fileState.model;
+        const sessionDataSource: SessionDataSource = fileState.inputTokensFromTruncationSum > 0 ? 'truncation' : 'heuristic';
+
+        if (sessionDateObj && !Number.isNaN(sessionDateObj.getTime())) {
+            // Fill fields missing from session.start with workspace.yaml values
+            const workspaceContext = getWorkspaceContext(sessionId);
+            const sessionContext: SessionContext = {
+                repository: fileState.context.repository || workspaceContext.repository,
+                branch: fileState.context.branch || workspaceContext.branch,
+                cwd: fileState.context.cwd || workspaceContext.cwd
+            };
+
+            const existingSession = sessionStateUsage.get(sessionId);
+            if (existingSession) {
+                existingSession.inputTokens += sessionInputTokens;
+                existingSession.outputTokens += sessionOutputTokens;
+                if (existingSession.model === 'default' && sessionModel !== 'default') {
+                    existingSession.model = sessionModel;
+                }
+                if (sessionDateObj < existingSession.date) {
+                    existingSession.date = sessionDateObj;
+                }
+                if (sessionDataSource === 'heuristic') {
+                    existingSession.dataSource = 'heuristic';
+                }
+                existingSession.context = {
+                    repository: existingSession.context.repository || sessionContext.repository,
+                    branch: existingSession.context.branch || sessionContext.branch,
+                    cwd: existingSession.context.cwd || sessionContext.cwd
+                };
+            } else {
+                sessionStateUsage.set(sessionId, {
+                    ...createEmptyUsage(),
+                    date: sessionDateObj,
+                    inputTokens: sessionInputTokens,
+                    outputTokens: sessionOutputTokens,
+                    model: sessionModel,
+                    context: sessionContext,
+                    dataSource: sessionDataSource,
+                    machine,
+                    assistant: 'copilot-cli'
+                });
+            }
+        } else {
+            // Without a start time the session cannot be placed in time, so it is left out
+            sessionDiagnostics.push({
+                file: filePath,
+                sessionId,
+                problem: fileState.startTime ? 'invalid-date' : 'missing-start',
+                startTime: fileState.startTime,
+                tokens: sessionInputTokens + sessionOutputTokens
+            });
+        }
+    }
+
+    // Imported sessions fill in what the local logs (or an earlier snapshot) lack:
+    // estimates become session-state usage, usage-log sessions supply their start and context
+    const importedUsageSessions = new Map<string, { date: Date; context: SessionContext }>();
+    for (const snapshot of snapshots) {
+        for (const session of snapshot.sessions) {
+            const date = new Date(session.startTime);
+            const context: SessionContext = {
+                repository: session.repository || undefined,
+                branch: session.branch || undefined,
+                cwd: session.cwd || undefined
+            };
+            if (session.dataSource === 'usage-log') {
+                if (!importedUsageSessions.has(session.sessionId)) {
+                    importedUsageSessions.set(session.sessionId, { date, context });
+                }
+            } else if (!sessionStateUsage.has(session.sessionId)) {
+                sessionStateUsage.set(session.sessionId, {
+                    date,
+                    inputTokens: session.inputTokens,
+                    outputTokens: session.outputTokens,
+                    cachedInputTokens: session.cachedInputTokens,
+                    cacheWriteTokens: session.cacheWriteTokens,
+                    reasoningTokens: session.reasoningTokens,
+                    model: session.model,
+                    context,
+                    dataSource: session.dataSource,
+                    machine: session.machine,
+                    assistant: session.assistant || 'copilot-cli'
+                });
+            }
+        }
+    }
+
+    // Skip the write when nothing was parsed or pruned, which keeps watch refreshes cheap
+    const cacheChanged = cache.stats.resumed + cache.stats.misses > 0
+        || Object.keys(cache.previous.sessionFiles).length !== Object.keys(cache.next.sessionFiles).length
+        || Object.keys(cache.previous.usageLogFiles).length !== Object.keys(cache.next.usageLogFiles).length;
+    let cacheWriteError: string | null = null;
+    if (useCache && cacheChanged) {
+        try {
+            saveParseCache(cache.next, cacheFile);
+        } catch (e) {
+            cacheWriteError = `Failed to write parse cache ${cacheFile}: ${(e as Error).message}`;
+        }
+    }
+
+    const sessionIdsFromState = new Set<string>();
+    for (const [sessionId, usage] of sessionStateUsage.entries()) {
+        const usageFromLogs = usageFromLogsBySession.get(sessionId);
+        if (usageFromLogs) {
+            addSessionUsage(
+                sessionId,
+                usage.date,
+                usageFromLogs,
+                usageFromLogs.model || usage.model,
+                usage.context,
+                'usage-log',
+                usageFromLogs.machine,
+                usageFromLogs.assistant
+            );
+        } else {
+            addSessionUsage(
+                sessionId,
+                usage.date,
+                usage,
+                usage.model,
+                usage.context,
+                usage.dataSource,
+                usage.machine,
+                usage.assistant
+            );
+        }
+        sessionIdsFromState.add(sessionId);
+    }
+
+    for (const [sessionId, usageFromLogs] of usageFromLogsBySession.entries()) {
+        if (sessionIdsFromState.has(sessionId)) continue;
+        const imported = importedUsageSessions.get(sessionId);
+        const sessionDate = imported ? imported.date : usageFromLogs.timestamp;
+        if (!sessionDate) continue;
+
+        const sessionContext = imported && !allLogs.workspaceFiles.has(sessionId) ? imported.context : getWorkspaceContext(sessionId);
+        addSessionUsage(
+            sessionId,
+            sessionDate,
+            usageFromLogs,
+            usageFromLogs.model,
+            sessionContext,
+            usageFromLogs.estimated ? 'heuristic' : 'usage-log',
+            usageFromLogs.machine,
+            usageFromLogs.assistant
+        );
+    }
+
+    allocatePremiumAllowance(allSessions, options.premiumPlan || DEFAULT_PREMIUM_PLAN);
+
+    // Tool calls, user messages and session diagnostics come from the Copilot CLI's session-state logs
+    const selectsSessionState = selectsAssistant('copilot-cli');
+    return {
+        sessions: allSessions.filter(session => matchesSessionFilters(session, filters)),
+        sessionStateUsage: new Map([...sessionStateUsage].filter(([, usage]) => selectsAssistant(usage.assistant))),
+        usageFromLogsBySession: new Map([...usageFromLogsBySession].filter(([, usage]) => selectsAssistant(usage.assistant))),
+        toolCallsBySession: selectsSessionState ? toolCallsBySession : new Map(),
+        userMessagesBySession: selectsSessionState ? userMessagesBySession : new Map(),
+        logs,
+        sources,
+        parseCache: cache.next,
+        cacheStats: cache.stats,
+        cacheWriteError,
+        tokenizer,
+        diagnostics: {
+            files: fileDiagnostics.filter(diagnostic => selectsAssistant(diagnostic.assistant)),
+            sessions: selectsSessionState ? sessionDiagnostics : [],
+            unknownModels: findUnknownModels(allSessions.filter(session => selectsAssistant(session.assistant)))
+        }
+    };
+}
+
+function matchesSessionFilters(session: SessionRecord, filters: SessionFilterOptions): boolean {
+    if (!isWithinDateRange(session.date, filters.since, filters.until)) return false;
+    if (filters.dataSources && !filters.dataSources.includes(session.dataSource)) return false;
+    if (filters.assistants && !filters.assistants.includes(session.assistant)) return false;
+    if (filters.repos && !filters.repos.includes((session.context.repository || UNKNOWN_GROUP_VALUE).toLowerCase())) return false;
+    return true;
+}
+
+// Narrow analyzed sessions further without parsing the logs again
+export function filterSessions(records: SessionRecord[], filters: SessionFilterOptions): SessionRecord[] {
+    return records.filter(session => matchesSessionFilters(session, filters));
+}
+
+// A session's share of each pricing key it used, as session records. Sessions priced with a
+// single key are returned as they are.
+export function splitSessionByModel(session: SessionRecord): SessionRecord[] {
+    const byPricingKey = new Map<string, SessionRecord>();
+    for (const part of session.models) {
+        let share = byPricingKey.get(part.pricingKey);
+        if (!share) {
+            share = {
+                ...session,
+                ...createEmptyUsage(),
+                model: part.model,
+                pricingKey: part.pricingKey,
+                cost: 0,
+                models: [],
+                requests: 0,
+                premiumRequests: 0,
+                premiumCost: 0
+            };
+            byPricingKey.set(part.pricingKey, share);
+        }
+        addTokenUsage(share, part);
+        share.cost += part.cost;
+        share.models.push(part);
+        share.requests += part.requests;
+        share.premiumRequests += part.premiumRequests;
+        share.premiumCost += part.premiumCost;
+    }
+    return byPricingKey.size > 1 ? [...byPricingKey.values()] : [session];
+}
+
+export function getGroupValue(dimension: GroupDimension, unit: TimeUnit, session: SessionRecord): string {
+    switch (dimension) {
+        case 'time':
+            return getAggregationKey(session.date, unit);
+        case 'model':
+            return session.pricingKey;
+        case 'repo':
+            return session.context.repository || UNKNOWN_GROUP_VALUE;
+        case 'branch':
+            return session.context.branch || UNKNOWN_GROUP_VALUE;
+        case 'cwd':
+            return session.context.cwd || UNKNOWN_GROUP_VALUE;
+        case 'machine':
+            return session.machine;
+        case 'assistant':
+            return session.assistant;
+    }
+}
+
+// Sum session records into totals and one row per distinct combination of `groupBy` values
+export function aggregate(records: SessionRecord[], options: AggregateOptions = {}): Aggregation {
+    const unit = options.unit || 'day';
+    const groupBy = options.groupBy || ['time'];
+    const since = options.since || null;
+    const until = options.until || null;
+
+    const totals = createEmptyStats();
+    const aggStats: Record<string, DailyStats> = {};
+    // Dimension values (aligned with groupBy) for each aggStats key
+    const aggDimensions: Record<string, string[]> = {};
+
+    for (const session of records) {
+        addSessionToStats(totals, session);
+
+        // A session that used several models counts in the row of each, with its share
+        const shares = groupBy.includes('model') ? splitSessionByModel(session) : [session];
+        for (const share of shares) {
+            const dimensionValues = groupBy.map(dimension => getGroupValue(dimension, unit, share));
+            const aggKey = dimensionValues.join('\t');
+            if (!aggStats[aggKey]) {
+                aggStats[aggKey] = createEmptyStats();
+                aggDimensions[aggKey] = dimensionValues;
+            }
+            addSessionToStats(aggStats[aggKey], share);
+        }
+    }
+
+    // Only applies when grouping purely by time; combined groupings show observed rows only.
+    // When a date window is given, the span is padded out to the window bounds (capped at now).
+    const timeOnly = groupBy.length === 1 && groupBy[0] === 'time';
+    const keys = Object.keys(aggStats);
+    if (since) {
+        keys.push(getAggregationKey(since, unit));
+    }
+    if (since || until) {
+        const now = new Date();
+        const windowEnd = until && until <= now ? new Date(until.getTime() - 1) : now;
+        keys.push(getAggregationKey(windowEnd, unit));
+    }
+    if (options.fillGaps && timeOnly && keys.length > 0) {
+        keys.sort();
+        const minKey = keys[0];
+        const maxKey = keys[keys.length - 1];
+
+        for (let currentKey = minKey; currentKey <= maxKey; currentKey = getNextAggregationKey(currentKey, unit)) {
+            if (!aggStats[currentKey]) {
+                aggStats[currentKey] = createEmptyStats();
+                aggDimensions[currentKey] = [currentKey];
+            }
+        }
+    }
+
+    return {
+        totals,
+        rows: Object.keys(aggStats).map(key => ({ dimensions: aggDimensions[key], stats: aggStats[key] }))
+    };
+}
+
+export function createEmptyToolStats(): ToolStats {
+    return { calls: 0, succeeded: 0, failed: 0, pending: 0, durationMs: 0, timedCalls: 0, resultTokens: 0, cost: 0 };
+}
+
+// Sum tool calls by tool, session and/or period. Result tokens are priced as input
+// of the model the session ran on.
+export function aggregateToolCalls(analysis: SessionAnalysis, options: ToolAggregateOptions = {}): ToolAggregation {
+    const unit = options.unit || 'day';
+    const groupBy = options.groupBy || ['tool'];
+    const repoFilter = options.repos || null;
+    const pricingTable = options.pricingTable || loadPricingTable();
+    const { sessionStateUsage, usageFromLogsBySession, toolCallsBySession } = analysis;
+
+    const totals = createEmptyToolStats();
+    const aggStats: Record<string, ToolStats> = {};
+    const aggDimensions: Record<string, string[]> = {};
+
+    for (const [sessionId, calls] of toolCallsBySession.entries()) {
+        const sessionUsage = sessionStateUsage.get(sessionId);
+        const context = sessionUsage ? sessionUsage.context : {};
+        if (repoFilter && !repoFilter.includes((context.repository || UNKNOWN_GROUP_VALUE).toLowerCase())) continue;
+
+        const usageFromLogs = usageFromLogsBySession.get(sessionId);
+        const model = (usageFromLogs && usageFromLogs.model) || (sessionUsage ? sessionUsage.model : 'default');
+        const pricing = pricingTable[resolvePricingKey(model, pricingTable)];
+
+        for (const call of calls) {
+            const callTime = call.startTime || call.endTime;
+            const callDate = callTime ? new Date(callTime) : (sessionUsage ? sessionUsage.date : null);
+            if (!callDate || Number.isNaN(callDate.getTime()) || !isWithinDateRange(callDate, options.since, options.until)) continue;
+
+            const dimensions = groupBy.map(dimension => {
+                if (dimension === 'time') return getAggregationKey(callDate, unit);
+                if (dimension === 'session') return sessionId;
+                return call.toolName;
+            });
+            const key = dimensions.join('\t');
+            if (!aggStats[key]) {
+                aggStats[key] = createEmptyToolStats();
+                aggDimensions[key] = dimensions;
+            }
+
+            const cost = calculateCost(pricing, { ...createEmptyUsage(), inputTokens: call.resultTokens });
+            const start = call.startTime ? new Date(call.startTime).getTime() : NaN;
+            const end = call.endTime ? new Date(call.endTime).getTime() : NaN;
+            for (const stats of [totals, aggStats[key]]) {
+                stats.calls++;
+                if (call.success === null) {
+                    stats.pending++;
+                } else if (call.success) {
+                    stats.succeeded++;
+                } else {
+                    stats.failed++;
+                }
+                if (!Number.isNaN(start) && !Number.isNaN(end) && end >= start) {
+                    stats.durationMs += end - start;
+                    stats.timedCalls++;
+                }
+                stats.resultTokens += call.resultTokens;
+                stats.cost += cost;
+            }
+        }
+    }
+
+    return {
+        totals,
+        rows: Object.keys(aggStats).map(key => ({ dimensions: aggDimensions[key], stats: aggStats[key] }))
+    };
+}
+
+// Check every day, month and the total against the configured limits.
+// Returns null when no limit is set.
+export function evaluateBudgets(sessions: SessionRecord[], budget: BudgetConfig): BudgetEvaluation | null {
+    if (budget.daily === null && budget.monthly === null && budget.total === null) return null;
+
+    const violations: BudgetViolation[] = [];
+    const check = (scope: BudgetScope, period: string, cost: number, limit: number | null) => {
+        if (limit === null) return;
+        if (cost > limit) {
+            violations.push({ scope, period, cost, limit, status: 'over' });
+        } else if (budget.warnRatio !== null && cost >= limit * budget.warnRatio) {
+            violations.push({ scope, period, cost, limit, status: 'warn' });
+        }
+    };
+
+    const costByPeriod = (unit: TimeUnit): Map<string, number> => {
+        const costs = new Map<string, number>();
+        for (const session of sessions) {
+            const key = getAggregationKey(session.date, unit);
+            costs.set(key, (costs.get(key) || 0) + session.cost);
+        }
+        return costs;
+    };
+
+    for (const [day, cost] of [...costByPeriod('day')].sort()) {
+        check('daily', day, cost, budget.daily);
+    }
+    for (const [month, cost] of [...costByPeriod('month')].sort()) {
+        check('monthly', month, cost, budget.monthly);
+    }
+    check('total', 'total', sessions.reduce((sum, session) => sum + session.cost, 0), budget.total);
+
+    return { config: budget, violations };
+}
@@ -1,117 +1,628 @@
 #!/usr/bin/env node
 import fs from 'node:fs';
-import path from 'node:path';
-import readline from 'node:readline';
+import http from 'node:http';
 import os from 'node:os';
+import path from 'node:path';
+import type {
+    AnalysisDiagnostics,
+    BillingConfig,
+    BillingMode,
+    BudgetConfig,
+    BudgetViolation,
+    ComparisonWindow,
+    CpusageConfig,
+    DailyStats,
+    GroupDimension,
+    OutputFormat,
+    ParseCache,
+    PercentileStats,
+    PeriodComparison,
+    PricingTable,
+    ReportFilters,
+    SessionAnalysis,
+    SessionRecord,
+    SessionSortKey,
+    SourceFilter,
+    StatField,
+    TimeUnit,
+    TokenizerMode,
+    ToolGroupDimension,
+    UsageReport,
+    UsageSnapshot,
+    WhatIfComparison,
+    WhatIfScenario
+} from './types.js';
+import { aggregateToolCalls, analyzeSessions, filterSessions, UNKNOWN_GROUP_VALUE } from './analyze.js';
+import { DEFAULT_PARSE_CACHE_FILE } from './cache.js';
+import { buildComparison, resolveComparisonWindow, toJsonComparison } from './compare.js';
+import { BILLING_MODES, CONFIG_FILE_LOCATIONS, loadConfigFile, OUTPUT_FORMATS } from './config.js';
+import { DEFAULT_GEMINI_DIR, DEFAULT_LOG_DIR, DEFAULT_SESSION_DIR, DEFAULT_VSCODE_DIR, readDirsFromEnv, UUID_PATTERN } from './discovery.js';
+import { TIME_UNITS, formatDateTime, getAggregationKey, isValidTimeZone, parseDateRange } from './dates.js';
+import { buildForecast, DEFAULT_RECENT_BURN_DAYS, toJsonForecast } from './forecast.js';
+import { calculateCost, DEFAULT_PREMIUM_PLAN, getPremiumMultiplier, loadPricingTable, PRICING_FILE_LOCATIONS, resolvePricingKey } from './pricing.js';
+import { startUsageServer } from './server.js';
+import { createSnapshot, loadSnapshot } from './snapshot.js';
+import { collectResponses, rankResponses, summarizeResponses, toJsonResponse, toJsonResponseStats } from './responses.js';
+import { TOKENIZER_MODES } from './tokenizer.js';
+import { buildWhatIf, parseWhatIf, toJsonWhatIf, toJsonWhatIfRow } from './whatif.js';
+import {
+    buildUsageReport,
+    DEFAULT_BILLING,
+    formatStatValue,
+    getReportStatColumns,
+    GROUP_DIMENSION_LABELS,
+    GROUP_DIMENSIONS,
+    parseGroupBy,
+    parseSourceFilter,
+    SESSION_SORT_KEYS,
+    sortSessions,
+    sortToolRows,
+    TOOL_GROUP_DIMENSION_LABELS,
+    TOOL_GROUP_DIMENSIONS,
+    toJsonReport,
+    toJsonRow,
+    toJsonSession,
+    toJsonToolRow
+} from './report.js';
+import { addSessionToStats, createEmptyStats, SESSION_DATA_SOURCES } from './tokens.js';
+import { escapeHtml } from './util.js';
+
+// Exit codes when a budget limit is crossed (1 is reserved for errors)
+const BUDGET_EXCEEDED_EXIT_CODE = 2;
+const BUDGET_WARNING_EXIT_CODE = 3;
+// Exit code of --strict when the logs have problems
+const STRICT_EXIT_CODE = 4;
+// Watch mode: coalesce bursts of file events, and poll in case events are missed
+const WATCH_DEBOUNCE_MS = 250;
+const WATCH_POLL_INTERVAL_MS = 5000;
+const BURN_RATE_WINDOW_MS = 5 * 60 * 1000;
+const DEFAULT_SERVE_HOST = '127.0.0.1';
+const DEFAULT_SERVE_PORT = 8787;
+
+// Report columns with the token cost or premium request estimate
+const COST_FIELDS: StatField[] = ['cost', 'premiumRequests', 'premiumCost'];
+// CSV headers that name the currency, since CSV values carry no $ sign
+const CSV_HEADERS: Partial<Record<StatField, string>> = {
+    cost: 'Est. Cost (USD)',
+    premiumCost: 'Premium Cost (USD)'
+};
 
-// Configuration
-// Default to HOME/.copilot/session-state if not provided in env
-const SESSION_DIR = process.env.SESSION_DIR || path.join(os.homedir(), '.copilot', 'session-state');
-const LOG_DIR = path.join(os.homedir(), '.copilot', 'logs');
-
-const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-const UUID_LOG_FILE_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.log$/i;
-const PROCESS_LOG_FILE_PATTERN = /^process-.*\.log$/i;
-const LOG_PREFIX_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z)\s+\[[^\]]+\]\s?(.*)$/;
-const SESSION_CONTEXT_PATTERN = /\b(?:session|Workspace initialized:)\s*([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\b/i;
-
-interface Pricing {
-    input: number;
-    output: number;
-}
-
-// Pricing Table (USD per 1M tokens)
-const PRICING_TABLE: Record<string, Pricing> = {
-    // OpenAI GPT-5.2 系列
-    'gpt-5.2-codex': { input: 1.75, output: 14.00 },
-    'gpt-5.2': { input: 1.75, output: 14.00 },
-    
-    // OpenAI GPT-5.1 系列
-    'gpt-5.1-codex-max': { input: 1.25, output: 10.00 },
-    'gpt-5.1-codex': { input: 1.25, output: 10.00 },
-    'gpt-5.1': { input: 1.25, output: 10.00 },
-    'gpt-5.1-codex-mini': { input: 0.25, output: 2.00 },
-    
-    // OpenAI GPT-5 與其他
-    'gpt-5': { input: 1.25, output: 10.00 },
-    'gpt-5-mini': { input: 0.25, output: 2.00 },
-    'gpt-4.1': { input: 2.00, output: 8.00 },
-    
-    // Anthropic Claude 系列
-    'claude-opus-4.5': { input: 5.00, output: 25.00 },
-    'claude-sonnet-4.5': { input: 1.00, output: 3.00 },
-    'claude-sonnet-4': { input: 1.00, output: 3.00 },
-    'claude-haiku-4.5': { input: 0.10, output: 0.50 },
-    
-    // Google Gemini 系列
-    'gemini-3-pro-preview': { input: 2.00, output: 12.00 },
-    
-    // 預設值
-    'default': { input: 1.00, output: 3.00 }
+// Width of a time bucket key, e.g. '2026-W07' or '2026-01-31 13:00'
+const TIME_KEY_WIDTHS: Record<TimeUnit, number> = {
+    hour: 16,
+    day: 10,
+    week: 8,
+    month: 7,
+    quarter: 7,
+    year: 4
 };
 
-interface DailyStats {
-    sessions: number;
-    input: number;
-    output: number;
+// Running totals sampled on each watch refresh, used for the burn rate
+interface WatchSample {
+    time: number;
     cost: number;
+    tokens: number;
 }
 
-interface LogEvent {
-    type: string;
-    data: {
-        startTime?: string;
-        sessionId?: string;
-        selectedMode?: string;
-        selectedModel?: string;
-        model?: string;
-        postTruncationTokensInMessages?: number;
-        content?: string;
-        transformedContent?: string;
-    };
-}
-
-interface SessionUsage {
-    date: Date;
-    inputTokens: number;
-    outputTokens: number;
-    model: string;
+// A resolved setting and where it came from, listed by --verbose
+interface EffectiveSetting {
+    name: string;
+    value: string;
+    source: string;
 }
 
-interface LogSessionUsage {
-    inputTokens: number;
-    outputTokens: number;
-    model: string;
-    timestamp: Date | null;
-}
-
-interface ParsedUsageRecord {
-    promptTokens: number;
-    completionTokens: number;
-    responseId: string | null;
-    sessionId: string | null;
-    model: string | null;
-}
+// Usage lines of the commands that take arguments
+const COMMAND_USAGE: Record<string, string> = {
+    session: 'cpusage session <id> [options]',
+    merge: 'cpusage merge <file...> [--output <file>]'
+};
 
 // Argument Parsing
 const args = process.argv.slice(2);
+const COMMANDS = ['sessions', 'session', 'tools', 'forecast', 'export', 'merge', 'serve', 'doctor'];
+// Options followed by a value; every other argument starting with '-' is a switch
+const VALUE_OPTIONS = [
+    '--unit', '--limit', '--group-by', '--repo', '--since', '--until', '--sort', '--top-responses', '--what-if',
+    '--compare', '--source', '--pricing', '--tokenizer', '--format', '--budget-daily', '--budget-monthly',
+    '--budget-total', '--budget-warn', '--billing', '--premium-allowance', '--premium-price', '--config', '--tz',
+    '--label', '--output', '--port', '--host', '--session-dir', '--log-dir', '--gemini-dir', '--vscode-dir', '--import'
+];
+// The first argument that is neither an option nor an option's value is the command,
+// the rest are its arguments (the session ID of `session`, the files of `merge`)
+const positionalArgs = args.filter((arg, index) => !arg.startsWith('-') && !VALUE_OPTIONS.includes(args[index - 1]));
+const command = positionalArgs.length > 0 ? positionalArgs[0].toLowerCase() : null;
+const commandArgs = positionalArgs.slice(1);
 const showHelp = args.includes('-h') || args.includes('--help');
 const listPrice = args.includes('--list-price');
 const rankByCost = args.includes('--rank');
 const jsonOutput = args.includes('--json');
 const verbose = args.includes('--verbose');
+const useCache = !args.includes('--no-cache');
+const rebuildCache = args.includes('--rebuild-cache');
+const watchMode = args.includes('--watch');
+const strictMode = args.includes('--strict');
 const unitIndex = args.indexOf('--unit');
 const limitIndex = args.indexOf('--limit');
-let timeUnit: 'day' | 'month' | 'hour' = 'day';
+const groupByIndex = args.indexOf('--group-by');
+const repoIndex = args.indexOf('--repo');
+const sinceIndex = args.indexOf('--since');
+const untilIndex = args.indexOf('--until');
+const sortIndex = args.indexOf('--sort');
+const topResponsesIndex = args.indexOf('--top-responses');
+const whatIfIndex = args.indexOf('--what-if');
+const compareIndex = args.indexOf('--compare');
+const sourceIndex = args.indexOf('--source');
+const pricingIndex = args.indexOf('--pricing');
+const tokenizerIndex = args.indexOf('--tokenizer');
+const formatIndex = args.indexOf('--format');
+const budgetDailyIndex = args.indexOf('--budget-daily');
+const budgetMonthlyIndex = args.indexOf('--budget-monthly');
+const budgetTotalIndex = args.indexOf('--budget-total');
+const budgetWarnIndex = args.indexOf('--budget-warn');
+const billingIndex = args.indexOf('--billing');
+const premiumAllowanceIndex = args.indexOf('--premium-allowance');
+const premiumPriceIndex = args.indexOf('--premium-price');
+const configIndex = args.indexOf('--config');
+const tzIndex = args.indexOf('--tz');
+const useUtc = args.includes('--utc');
+const labelIndex = args.indexOf('--label');
+const outputIndex = args.indexOf('--output');
+const portIndex = args.indexOf('--port');
+const hostIndex = args.indexOf('--host');
+const sessionDirArgs = getFlagValues('--session-dir', 'a directory path');
+const logDirArgs = getFlagValues('--log-dir', 'a directory path');
+const geminiDirArgs = getFlagValues('--gemini-dir', 'a directory path');
+const vscodeDirArgs = getFlagValues('--vscode-dir', 'a directory path');
+const importArgs = getFlagValues('--import', 'a snapshot file');
+
+// Settings are taken from flags, then environment variables, then the config file
+const effectiveSettings: EffectiveSetting[] = [];
+
+let configFile: string | null = null;
+if (configIndex !== -1) {
+    const configArg = args[configIndex + 1];
+    if (!configArg || configArg.startsWith('--')) {
+        console.error('Missing value for --config. Expected a path to a JSON config file.');
+        process.exit(1);
+    }
+    configFile = path.resolve(configArg);
+    if (!fs.existsSync(configFile)) {
+        console.error(`Config file not found: ${configFile}`);
+        process.exit(1);
+    }
+} else {
+    configFile = CONFIG_FILE_LOCATIONS.find(location => fs.existsSync(location)) || null;
+}
+
+let config: CpusageConfig;
+try {
+    config = loadConfigFile(configFile);
+} catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+}
+effectiveSettings.push({ name: 'Config file', value: configFile || '(none)', source: configIndex !== -1 ? '--config' : 'default' });
+
+// Time zone of dates and buckets: --utc/--tz, then TZ, then the config file.
+// Applied through TZ before any date is parsed or formatted.
+let timeZoneSource = process.env.TZ ? 'TZ' : 'system';
+if (useUtc && tzIndex !== -1) {
+    console.error('Use either --tz or --utc, not both.');
+    process.exit(1);
+}
+if (useUtc) {
+    process.env.TZ = 'UTC';
+    timeZoneSource = '--utc';
+} else if (tzIndex !== -1) {
+    const tzArg = args[tzIndex + 1] || '';
+    if (!tzArg || tzArg.startsWith('--') || !isValidTimeZone(tzArg)) {
+        console.error(`Invalid time zone: ${tzArg}. Use an IANA time zone name such as Asia/Taipei or America/New_York.`);
+        process.exit(1);
+    }
+    process.env.TZ = tzArg;
+    timeZoneSource = '--tz';
+} else if (!process.env.TZ && config.timezone) {
+    process.env.TZ = config.timezone;
+    timeZoneSource = 'config';
+}
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+effectiveSettings.push({ name: 'Time zone', value: timeZone, source: timeZoneSource });
+
+// Log roots: repeated flags, then the env variable (path-delimiter separated), then the config file
+const resolveDirs = (flag: string, flagValues: string[], envName: string, configDirs: string[] | undefined, defaultDir: string) => {
+    const envDirs = readDirsFromEnv(envName);
+    if (flagValues.length > 0) return { dirs: flagValues.map(dir => path.resolve(dir)), source: flag };
+    if (envDirs) return { dirs: envDirs.map(dir => path.resolve(dir)), source: envName };
+    if (configDirs && configDirs.length > 0) return { dirs: configDirs, source: 'config' };
+    return { dirs: [defaultDir], source: 'default' };
+};
+const sessionDirRoots = resolveDirs('--session-dir', sessionDirArgs, 'SESSION_DIR', config.sessionDirs, DEFAULT_SESSION_DIR);
+const logDirRoots = resolveDirs('--log-dir', logDirArgs, 'LOG_DIR', config.logDirs, DEFAULT_LOG_DIR);
+const geminiDirRoots = resolveDirs('--gemini-dir', geminiDirArgs, 'GEMINI_DIR', config.geminiDirs, DEFAULT_GEMINI_DIR);
+const vscodeDirRoots = resolveDirs('--vscode-dir', vscodeDirArgs, 'VSCODE_DIR', config.vscodeDirs, DEFAULT_VSCODE_DIR);
+const sessionDirs = sessionDirRoots.dirs;
+const logDirs = logDirRoots.dirs;
+const geminiDirs = geminiDirRoots.dirs;
+const vscodeDirs = vscodeDirRoots.dirs;
+effectiveSettings.push(
+    { name: 'Session dirs', value: sessionDirs.join(', '), source: sessionDirRoots.source },
+    { name: 'Log dirs', value: logDirs.join(', '), source: logDirRoots.source },
+    { name: 'Gemini dirs', value: geminiDirs.join(', '), source: geminiDirRoots.source },
+    { name: 'VS Code dirs', value: vscodeDirs.join(', '), source: vscodeDirRoots.source }
+);
+
+let timeUnit: TimeUnit = config.unit || 'day';
+let timeUnitSource = config.unit ? 'config' : 'default';
+let groupBy: GroupDimension[] = ['time'];
+let toolGroupBy: ToolGroupDimension[] = ['tool'];
 let limit = rankByCost ? 10 : Infinity; // Default limit for rank is 10
 
 if (unitIndex !== -1 && args[unitIndex + 1]) {
     const unitArg = args[unitIndex + 1].toLowerCase();
-    if (['day', 'month', 'hour'].includes(unitArg)) {
-        timeUnit = unitArg as 'day' | 'month' | 'hour';
+    if (TIME_UNITS.includes(unitArg as TimeUnit)) {
+        timeUnit = unitArg as TimeUnit;
+        timeUnitSource = '--unit';
     } else {
-        console.error(`Invalid unit: ${unitArg}. Using default 'day'.`);
+        console.error(`Invalid unit: ${unitArg}. Using default '${timeUnit}'.`);
+    }
+}
+
+if (groupByIndex !== -1) {
+    // The tools report groups by tool, session and/or a time unit
+    try {
+        const groupByArg = args[groupByIndex + 1] || '';
+        let unit: TimeUnit | null;
+        if (command === 'tools') {
+            ({ dimensions: toolGroupBy, unit } = parseGroupBy(groupByArg, TOOL_GROUP_DIMENSIONS));
+        } else {
+            ({ dimensions: groupBy, unit } = parseGroupBy(groupByArg, GROUP_DIMENSIONS));
+        }
+        if (unit) {
+            timeUnit = unit;
+            timeUnitSource = '--group-by';
+        }
+    } catch (e) {
+        console.error((e as Error).message);
+        process.exit(1);
+    }
+}
+
+// Repository filter (owner/name, case insensitive, comma-separated for several)
+let repoFilter: string[] | null = null;
+if (repoIndex !== -1) {
+    const repoArg = args[repoIndex + 1];
+    if (!repoArg || repoArg.startsWith('--')) {
+        console.error('Missing value for --repo. Expected <owner/name>.');
+        process.exit(1);
     }
+    repoFilter = repoArg.split(',').map(value => value.trim().toLowerCase()).filter(Boolean);
+}
+
+// Source filter: measured usage-log totals, session-state estimates, or both,
+// and the assistants whose logs are read (default: all)
+let sourceFilterName = 'all';
+let sourceFilter: SourceFilter = { dataSources: null, assistants: null };
+if (sourceIndex !== -1) {
+    const sourceArg = (args[sourceIndex + 1] || '').toLowerCase();
+    try {
+        sourceFilter = parseSourceFilter(sourceArg);
+    } catch (e) {
+        console.error((e as Error).message);
+        process.exit(1);
+    }
+    sourceFilterName = sourceArg;
+}
+const { dataSources: dataSourceFilter, assistants: assistantFilter } = sourceFilter;
+
+// Analysis window: sessions starting in [since, until) are included
+let since: Date | null = null;
+let until: Date | null = null;
+
+if (sinceIndex !== -1) {
+    const range = parseDateRange(args[sinceIndex + 1] || '');
+    if (!range) {
+        console.error(`Invalid since: ${args[sinceIndex + 1] || ''}. Use YYYY-MM-DD, an ISO timestamp, <n>h/<n>d/<n>w, today, yesterday, this-month or last-month.`);
+        process.exit(1);
+    }
+    since = range.start;
+}
+
+if (untilIndex !== -1) {
+    const range = parseDateRange(args[untilIndex + 1] || '');
+    if (!range) {
+        console.error(`Invalid until: ${args[untilIndex + 1] || ''}. Use YYYY-MM-DD, an ISO timestamp, <n>h/<n>d/<n>w, today, yesterday, this-month or last-month.`);
+        process.exit(1);
+    }
+    until = range.end;
+}
+
+if (since && until && since >= until) {
+    console.error('Invalid date range: --since must be earlier than --until.');
+    process.exit(1);
+}
+// The forecast always looks at the current month and the days before it
+if (command === 'forecast' && (since || until)) {
+    console.error('--since and --until are not supported by the forecast command.');
+    process.exit(1);
+}
+const reportFilters: ReportFilters = { since, until, repo: repoFilter, source: sourceFilterName };
+
+let sessionSort: SessionSortKey = rankByCost ? 'cost' : 'date';
+
+if (sortIndex !== -1) {
+    const sortArg = (args[sortIndex + 1] || '').toLowerCase();
+    if (!SESSION_SORT_KEYS.includes(sortArg as SessionSortKey)) {
+        console.error(`Invalid sort: ${sortArg}. Use one of ${SESSION_SORT_KEYS.join(', ')}.`);
+        process.exit(1);
+    }
+    sessionSort = sortArg as SessionSortKey;
+}
+
+// Rank individual responses instead of reporting buckets
+let topResponses: number | null = null;
+if (topResponsesIndex !== -1) {
+    const topArg = args[topResponsesIndex + 1] || '';
+    if (!/^\d+$/.test(topArg) || Number(topArg) < 1) {
+        console.error(`Invalid top-responses: ${topArg}. Must be a number greater than 0.`);
+        process.exit(1);
+    }
+    if (command) {
+        console.error('--top-responses is only supported by the usage report.');
+        process.exit(1);
+    }
+    topResponses = Number(topArg);
+}
+
+// Reprice the usage report under other models; the scenarios are parsed once the pricing table is loaded
+const whatIfArg = whatIfIndex !== -1 ? args[whatIfIndex + 1] || '' : null;
+if (whatIfArg !== null && (command || topResponses !== null)) {
+    console.error('--what-if is only supported by the usage report.');
+    process.exit(1);
+}
+
+// Compare the report window with a baseline window of equal length. The analysis then
+// spans both windows, and the report itself keeps to the current one.
+const compareArg = compareIndex !== -1 ? args[compareIndex + 1] || '' : null;
+let comparisonWindows: { current: ComparisonWindow; baseline: ComparisonWindow } | null = null;
+let analysisSince = since;
+let analysisUntil = until;
+if (compareArg !== null) {
+    if (command || topResponses !== null) {
+        console.error('--compare is only supported by the usage report.');
+        process.exit(1);
+    }
+    if (!since) {
+        console.error('--compare needs --since to set the current window, e.g. --since 7d --compare previous.');
+        process.exit(1);
+    }
+    if (jsonOutput && formatIndex === -1) {
+        console.error('--compare is not supported with --json, which prints only the report rows. Use --format json.');
+        process.exit(1);
+    }
+    const current: ComparisonWindow = { since, until: until || new Date() };
+    try {
+        comparisonWindows = { current, baseline: resolveComparisonWindow(compareArg, current, timeUnit) };
+    } catch (e) {
+        console.error((e as Error).message);
+        process.exit(1);
+    }
+    const { baseline } = comparisonWindows;
+    if (baseline.since < since) analysisSince = baseline.since;
+    if (until && baseline.until > until) analysisUntil = baseline.until;
+}
+
+// Resolve --since and --until again, so relative values such as 7d or today follow the clock
+// while watch and serve refresh. They were validated above.
+function updateDateWindow() {
+    const sinceRange = sinceIndex !== -1 ? parseDateRange(args[sinceIndex + 1] || '') : null;
+    const untilRange = untilIndex !== -1 ? parseDateRange(args[untilIndex + 1] || '') : null;
+    if (sinceRange) since = sinceRange.start;
+    if (untilRange) until = untilRange.end;
+    reportFilters.since = since;
+    reportFilters.until = until;
+    if (!comparisonWindows) {
+        analysisSince = since;
+        analysisUntil = until;
+    }
+}
+
+if (command && !COMMANDS.includes(command)) {
+    console.error(`Unknown command: ${command}. Available commands: ${COMMANDS.join(', ')}.`);
+    process.exit(1);
+}
+const maxCommandArgs = command === 'session' ? 1 : (command === 'merge' ? Infinity : 0);
+if (commandArgs.length > maxCommandArgs) {
+    console.error(`Unexpected argument: ${commandArgs[maxCommandArgs]}. Usage: ${command ? COMMAND_USAGE[command] || `cpusage ${command} [options]` : 'cpusage [command] [options]'}`);
+    process.exit(1);
+}
+
+let outputFormatArg: OutputFormat | null = null;
+
+if (formatIndex !== -1) {
+    const formatArg = (args[formatIndex + 1] || '').toLowerCase();
+    const normalizedFormat = formatArg === 'md' ? 'markdown' : formatArg;
+    if (!OUTPUT_FORMATS.includes(normalizedFormat as OutputFormat)) {
+        console.error(`Invalid format: ${formatArg}. Use one of ${OUTPUT_FORMATS.join(', ')}.`);
+        process.exit(1);
+    }
+    outputFormatArg = normalizedFormat as OutputFormat;
+    if (command && outputFormatArg !== 'table' && outputFormatArg !== 'json') {
+        console.error(`--format ${outputFormatArg} is only supported for the usage report. Use --json for the ${command} command.`);
+        process.exit(1);
+    }
+    if (topResponses !== null && outputFormatArg !== 'table' && outputFormatArg !== 'json') {
+        console.error(`--format ${outputFormatArg} is not supported with --top-responses. Use --json.`);
+        process.exit(1);
+    }
+    if (whatIfArg !== null && outputFormatArg !== 'table' && outputFormatArg !== 'json') {
+        console.error(`--format ${outputFormatArg} is not supported with --what-if. Use table or json.`);
+        process.exit(1);
+    }
+    if (compareArg !== null && outputFormatArg !== 'table' && outputFormatArg !== 'json') {
+        console.error(`--format ${outputFormatArg} is not supported with --compare. Use table or json.`);
+        process.exit(1);
+    }
+}
+// The config file's format is ignored by --json and --watch, and commands,
+// --top-responses, --what-if and --compare only take table or json from it
+const configFormat = config.format && !jsonOutput && !watchMode
+    && ((!command && topResponses === null && whatIfArg === null && compareArg === null) || config.format === 'table' || config.format === 'json')
+    ? config.format
+    : null;
+const outputFormat: OutputFormat = outputFormatArg || configFormat || 'table';
+effectiveSettings.push(
+    { name: 'Unit', value: timeUnit, source: timeUnitSource },
+    {
+        name: 'Format',
+        value: jsonOutput && !outputFormatArg ? 'json' : outputFormat,
+        source: outputFormatArg ? '--format' : (jsonOutput ? '--json' : (configFormat ? 'config' : 'default'))
+    }
+);
+
+if (watchMode && (command || topResponses !== null || whatIfArg !== null || compareArg !== null || jsonOutput || outputFormat !== 'table')) {
+    console.error('--watch only supports the table view of the usage report.');
+    process.exit(1);
+}
+
+let pricingFile: string | null = null;
+if (pricingIndex !== -1) {
+    const pricingArg = args[pricingIndex + 1];
+    if (!pricingArg || pricingArg.startsWith('--')) {
+        console.error('Missing value for --pricing. Expected a path to a JSON pricing file.');
+        process.exit(1);
+    }
+    pricingFile = path.resolve(pricingArg);
+    if (!fs.existsSync(pricingFile)) {
+        console.error(`Pricing file not found: ${pricingFile}`);
+        process.exit(1);
+    }
+} else if (config.pricing) {
+    pricingFile = config.pricing;
+    if (!fs.existsSync(pricingFile)) {
+        console.error(`Pricing file not found: ${pricingFile} (set in ${configFile})`);
+        process.exit(1);
+    }
+} else {
+    pricingFile = PRICING_FILE_LOCATIONS.find(location => fs.existsSync(location)) || null;
+}
+effectiveSettings.push({
+    name: 'Pricing',
+    value: pricingFile || '(built-in)',
+    source: pricingIndex !== -1 ? '--pricing' : (config.pricing ? 'config' : 'default')
+});
+
+// Tokenizer for text-based estimates: --tokenizer, then the config file, then BPE
+let tokenizer: TokenizerMode = config.tokenizer || 'bpe';
+if (tokenizerIndex !== -1) {
+    const tokenizerArg = (args[tokenizerIndex + 1] || '').toLowerCase();
+    if (!TOKENIZER_MODES.includes(tokenizerArg as TokenizerMode)) {
+        console.error(`Invalid tokenizer: ${tokenizerArg}. Use one of ${TOKENIZER_MODES.join(', ')}.`);
+        process.exit(1);
+    }
+    tokenizer = tokenizerArg as TokenizerMode;
+}
+effectiveSettings.push({ name: 'Tokenizer', value: tokenizer, source: tokenizerIndex !== -1 ? '--tokenizer' : (config.tokenizer ? 'config' : 'default') });
+
+// Cost model of the reports, and the premium-request plan they are billed against
+const billing: BillingConfig = { ...DEFAULT_BILLING, ...config.billing };
+if (billingIndex !== -1) {
+    const billingArg = (args[billingIndex + 1] || '').toLowerCase();
+    if (!BILLING_MODES.includes(billingArg as BillingMode)) {
+        console.error(`Invalid billing: ${billingArg}. Use one of ${BILLING_MODES.join(', ')}.`);
+        process.exit(1);
+    }
+    billing.mode = billingArg as BillingMode;
+}
+if (premiumAllowanceIndex !== -1) {
+    const allowanceArg = args[premiumAllowanceIndex + 1] || '';
+    if (!/^\d+(\.\d+)?$/.test(allowanceArg)) {
+        console.error(`Invalid premium allowance: ${allowanceArg}. Must be a non-negative number of requests.`);
+        process.exit(1);
+    }
+    billing.allowance = Number(allowanceArg);
+}
+if (premiumPriceIndex !== -1) {
+    const price = parseUsdAmount(args[premiumPriceIndex + 1] || '');
+    if (price === null) {
+        console.error(`Invalid premium price: ${args[premiumPriceIndex + 1] || ''}. Must be a non-negative USD amount.`);
+        process.exit(1);
+    }
+    billing.overagePrice = price;
+}
+effectiveSettings.push(
+    { name: 'Billing', value: billing.mode, source: billingIndex !== -1 ? '--billing' : (config.billing.mode ? 'config' : 'default') },
+    {
+        name: 'Premium plan',
+        value: `${billing.allowance} requests/month, $${billing.overagePrice} per extra request`,
+        source: premiumAllowanceIndex !== -1 || premiumPriceIndex !== -1
+            ? '--premium-allowance/--premium-price'
+            : (config.billing.allowance !== undefined || config.billing.overagePrice !== undefined ? 'config' : 'default')
+    }
+);
+
+// Machine label of the sessions read from local logs: --label, then the config file, then the host name
+let machineLabel = config.label || os.hostname();
+if (labelIndex !== -1) {
+    const labelArg = (args[labelIndex + 1] || '').trim();
+    if (!labelArg || labelArg.startsWith('--')) {
+        console.error('Missing value for --label. Expected a machine or user name.');
+        process.exit(1);
+    }
+    machineLabel = labelArg;
+}
+effectiveSettings.push({ name: 'Machine label', value: machineLabel, source: labelIndex !== -1 ? '--label' : (config.label ? 'config' : 'default') });
+
+let outputFile: string | null = null;
+if (outputIndex !== -1) {
+    const outputArg = args[outputIndex + 1];
+    if (!outputArg || outputArg.startsWith('--')) {
+        console.error('Missing value for --output. Expected a file path.');
+        process.exit(1);
+    }
+    if (command !== 'export' && command !== 'merge') {
+        console.error('--output is only supported by the export and merge commands.');
+        process.exit(1);
+    }
+    outputFile = path.resolve(outputArg);
+}
+
+// Address of the serve command's HTTP server
+let serveHost = DEFAULT_SERVE_HOST;
+let servePort = DEFAULT_SERVE_PORT;
+if (hostIndex !== -1) {
+    const hostArg = args[hostIndex + 1];
+    if (!hostArg || hostArg.startsWith('--')) {
+        console.error('Missing value for --host. Expected a host name or IP address.');
+        process.exit(1);
+    }
+    serveHost = hostArg;
+}
+if (portIndex !== -1) {
+    const portArg = args[portIndex + 1] || '';
+    const port = Number(portArg);
+    if (!/^\d+$/.test(portArg) || port > 65535) {
+        console.error(`Invalid port: ${portArg}. Must be a number from 0 to 65535.`);
+        process.exit(1);
+    }
+    servePort = port;
+}
+if ((hostIndex !== -1 || portIndex !== -1) && command !== 'serve') {
+    console.error('--host and --port are only supported by the serve command.');
+    process.exit(1);
+}
+if (command === 'serve') {
+    effectiveSettings.push(
+        { name: 'Serve host', value: serveHost, source: hostIndex !== -1 ? '--host' : 'default' },
+        { name: 'Serve port', value: String(servePort), source: portIndex !== -1 ? '--port' : 'default' }
+    );
+}
+
+// Snapshot files: the arguments of `merge`, then each --import
+const mergeArgs = command === 'merge' ? commandArgs : [];
+const snapshotFiles = [...mergeArgs, ...importArgs].map(file => path.resolve(file));
+if (command === 'merge' && snapshotFiles.length === 0) {
+    console.error(`Missing snapshot files. Usage: ${COMMAND_USAGE.merge}`);
+    process.exit(1);
 }
 
 if (limitIndex !== -1 && args[limitIndex + 1]) {
@@ -126,561 +637,1401 @@ if (limitIndex !== -1 && args[limitIndex + 1]) {
 
 if (showHelp) {
     console.log(`
-Usage: cpusage [options]
+Usage: cpusage [command] [options]
+
+Commands:
+  (none)           Show usage aggregated by time bucket
+  sessions         List individual sessions
+  session <id>     Show per-response usage for a single session
+  tools            Show tool call counts, durations and result tokens
+                   (--group-by tool (default), session and/or a time unit)
+  forecast         Project this month's cost from the average, recent and trend
+                   burn rates, and the days until --budget-monthly/--budget-total
+                   run out
+  export           Write a usage snapshot of the selected sessions (JSON, no
+                   message text) to stdout or --output
+  merge <file...>  Combine snapshots into one, counting shared responses once
+  serve            Serve a dashboard, JSON reports (/api/usage, /api/sessions,
+                   /api/tools) and Prometheus metrics (/metrics) over HTTP,
+                   refreshed as the logs change
+  doctor           List malformed log lines, usage without a session, sessions
+                   without a usable start and models priced as 'default'
 
 Options:
   -h, --help       Show this help message
   --rank           Sort output by estimated cost (descending)
   --limit <n>      Limit the number of results (default: 10 when using --rank)
-  --unit <unit>    Aggregation unit: 'day' (default), 'month', or 'hour'
-  --verbose        Show analysis details (log path and count)
+  --unit <unit>    Aggregation unit: 'day' (default), 'week' (ISO week), 'month',
+                   'quarter', 'year' or 'hour'
+  --tz <zone>      Bucket and show dates in an IANA time zone (e.g. Asia/Taipei)
+  --utc            Bucket and show dates in UTC
+  --group-by <dims>
+                   Group results by a comma-separated list of dimensions:
+                   a time unit, 'model', 'repo', 'branch', 'cwd', 'machine',
+                   'assistant' (e.g. 'day,model'). A session that switched
+                   models counts in the row of each model
+  --repo <owner/name>
+                   Only include sessions from the given repository
+  --since <date>   Only include sessions starting on or after <date>
+  --until <date>   Only include sessions starting on or before <date>
+                   Dates: YYYY-MM-DD, ISO timestamp, <n>h/<n>d/<n>w (e.g. 7d),
+                   today, yesterday, this-month, last-month
+  --source <src>   Only include 'usage-only' (measured usage-log totals),
+                   'estimates-only' (session-state estimates) or 'all' (default),
+                   and/or only include the sessions of the listed assistants:
+                   'copilot-cli', 'gemini-cli', 'vscode-copilot' (default: all),
+                   comma-separated, e.g. 'copilot-cli,usage-only'
+  --top-responses <n>
+                   List the <n> most expensive responses (usage-log turns) with
+                   a preview of the prompt, and per-response token percentiles
+  --what-if <models>
+                   Compare the actual cost with the cost of the same tokens
+                   under other models: a comma-separated list of models
+                   (reprice all sessions) or <from>:<to> (reprice only the
+                   <from> sessions), e.g. 'gpt-5-mini,claude-opus:claude-sonnet-4.5'
+  --compare <window>
+                   Compare the --since/--until window with 'previous' (the
+                   window of equal length just before it) or a window of equal
+                   length starting at <date>: per-bucket, total and per-model
+                   changes of sessions, tokens and cost (e.g. --since this-month
+                   --unit month --compare previous)
+  --sort <key>     Sort the session list by 'date' (default), 'cost', 'tokens',
+                   'input' or 'output' (descending)
+  --verbose        Show the effective configuration and analysis details
+  --strict         Stop with exit code ${STRICT_EXIT_CODE} when the logs have problems that
+                   doctor would list, instead of leaving them out silently
+  --session-dir <dir>
+                   Read session-state logs from <dir>; repeat for several roots
+                   (default: ~/.copilot/session-state)
+  --log-dir <dir>  Read usage logs from <dir>; repeat for several roots
+                   (default: ~/.copilot/logs)
+  --gemini-dir <dir>
+                   Read Gemini CLI chats from <dir>; repeat for several roots
+                   (default: ~/.gemini/tmp)
+  --vscode-dir <dir>
+                   Read VS Code Copilot Chat sessions from <dir>; repeat for
+                   several roots (default: the workspaceStorage directory of
+                   the VS Code user data)
+  --config <file>  Load settings from a JSON config file (default:
+                   ~/.config/cpusage/config.json or ~/.copilot/cpusage-config.json)
+  --watch          Keep running and redraw the current bucket, today's total
+                   and the burn rate as logs are written (Ctrl+C to stop)
+  --budget-daily <usd>, --budget-monthly <usd>, --budget-total <usd>
+                   Warn and exit with code ${BUDGET_EXCEEDED_EXIT_CODE} when a day, month or the
+                   total cost exceeds the limit
+  --budget-warn <ratio>
+                   Also warn (exit code ${BUDGET_WARNING_EXIT_CODE}) when a limit is reached to
+                   this ratio, e.g. 0.8 or 80%
+  --billing <mode> Cost model of the reports: 'tokens' (default, token prices),
+                   'premium' (premium requests) or 'both' side by side
+  --premium-allowance <n>
+                   Premium requests included per month (default: ${DEFAULT_PREMIUM_PLAN.allowance})
+  --premium-price <usd>
+                   Price of each premium request beyond the allowance
+                   (default: $${DEFAULT_PREMIUM_PLAN.overagePrice})
+  --import <file>  Add the sessions of a snapshot written by export or merge;
+                   repeat for several files. Responses already counted are skipped,
+                   and sessions already read keep their machine label
+  --label <name>   Machine label of the local logs in reports and snapshots
+                   (default: the host name)
+  --output <file>  Write the snapshot of export or merge to <file>
+  --host <addr>    Address the serve command listens on (default: ${DEFAULT_SERVE_HOST})
+  --port <n>       Port of the serve command (default: ${DEFAULT_SERVE_PORT})
+  --tokenizer <t>  Count estimated text with 'bpe' (default; o200k/cl100k
+                   vocabularies chosen by model) or 'heuristic' (~4 bytes/token)
+  --no-cache       Do not read or write the parse cache
+  --rebuild-cache  Ignore the parse cache and rebuild it from scratch
   --list-price     Show current pricing table
+  --pricing <file> Load a JSON pricing file that merges with or replaces the
+                   built-in table (default: ~/.config/cpusage/pricing.json or
+                   ~/.copilot/cpusage-pricing.json when present)
   --json           Output results in JSON format
+  --format <fmt>   Report format: 'table' (default), 'csv', 'markdown', 'html',
+                   or 'json' (versioned envelope with totals and pricing)
 
 Environment Variables:
   SESSION_DIR      Path to Copilot session logs (default: ~/.copilot/session-state)
+  LOG_DIR          Path to Copilot usage logs (default: ~/.copilot/logs)
+  GEMINI_DIR       Path to Gemini CLI chats (default: ~/.gemini/tmp)
+  VSCODE_DIR       Path to VS Code workspace storage with Copilot Chat sessions
+                   All four accept several paths separated by '${path.delimiter}'
+  TZ               Time zone used for dates and buckets (overridden by --tz/--utc)
+
+Settings are taken from flags first, then environment variables, then the
+config file.
 `);
     process.exit(0);
 }
 
+let pricingTable: PricingTable;
+try {
+    pricingTable = loadPricingTable(pricingFile);
+} catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+}
+
+let whatIfScenarios: WhatIfScenario[] = [];
+if (whatIfArg !== null) {
+    try {
+        whatIfScenarios = parseWhatIf(whatIfArg, pricingTable);
+    } catch (e) {
+        console.error((e as Error).message);
+        process.exit(1);
+    }
+}
+
+const snapshots: UsageSnapshot[] = [];
+for (const file of snapshotFiles) {
+    try {
+        snapshots.push(loadSnapshot(file));
+    } catch (e) {
+        console.error((e as Error).message);
+        process.exit(1);
+    }
+}
+
+// Budget limits: flags override the config file
+const parseBudgetFlag = (index: number, name: string, parse: (value: string) => number | null): number | null => {
+    if (index === -1) return null;
+    const value = parse(args[index + 1] || '');
+    if (value === null) {
+        console.error(`Invalid ${name}: ${args[index + 1] || ''}.`);
+        process.exit(1);
+    }
+    return value;
+};
+const budget: BudgetConfig = {
+    daily: parseBudgetFlag(budgetDailyIndex, '--budget-daily', parseUsdAmount) ?? config.budget.daily ?? null,
+    monthly: parseBudgetFlag(budgetMonthlyIndex, '--budget-monthly', parseUsdAmount) ?? config.budget.monthly ?? null,
+    total: parseBudgetFlag(budgetTotalIndex, '--budget-total', parseUsdAmount) ?? config.budget.total ?? null,
+    warnRatio: parseBudgetFlag(budgetWarnIndex, '--budget-warn', parseWarnRatio) ?? config.budget.warnRatio ?? null
+};
+
 if (listPrice) {
     console.log('=== Current Pricing Table (USD per 1M tokens) ===');
-    console.log(`${'Model'.padEnd(25)} | ${'Input'.padEnd(10)} | ${'Output'.padEnd(10)}`);
-    console.log(`${'-'.repeat(25)}-|-${'-'.repeat(10)}-|-${'-'.repeat(10)}`);
-    for (const [model, pricing] of Object.entries(PRICING_TABLE)) {
-        console.log(`${model.padEnd(25)} | $${pricing.input.toFixed(2).padEnd(9)} | $${pricing.output.toFixed(2).padEnd(9)}`);
+    const aliasColWidth = Math.max('Aliases'.length, ...Object.values(pricingTable).map(pricing => pricing.aliases.join(', ').length));
+    // Optional tiers show '-' when they fall back to the input/output price
+    const formatTier = (price: number | undefined) => price === undefined ? '-'.padEnd(10) : `$${price.toFixed(3).padEnd(9)}`;
+    console.log(`${'Model'.padEnd(25)} | ${'Input'.padEnd(10)} | ${'Output'.padEnd(10)} | ${'Cached In'.padEnd(10)} | ${'Cache Wr'.padEnd(10)} | ${'Reasoning'.padEnd(10)} | ${'Premium'.padEnd(7)} | ${'Match'.padEnd(6)} | ${'Aliases'.padEnd(aliasColWidth)} | Source`);
+    console.log(`${'-'.repeat(25)}-|-${'-'.repeat(10)}-|-${'-'.repeat(10)}-|-${'-'.repeat(10)}-|-${'-'.repeat(10)}-|-${'-'.repeat(10)}-|-${'-'.repeat(7)}-|-${'-'.repeat(6)}-|-${'-'.repeat(aliasColWidth)}-|-${'-'.repeat(10)}`);
+    for (const [model, pricing] of Object.entries(pricingTable)) {
+        console.log(`${model.padEnd(25)} | $${pricing.input.toFixed(2).padEnd(9)} | $${pricing.output.toFixed(2).padEnd(9)} | ${formatTier(pricing.cachedInput)} | ${formatTier(pricing.cacheWrite)} | ${formatTier(pricing.reasoning)} | ${`${getPremiumMultiplier(pricing)}x`.padEnd(7)} | ${pricing.match.padEnd(6)} | ${pricing.aliases.join(', ').padEnd(aliasColWidth)} | ${pricing.source}`);
     }
     process.exit(0);
 }
-function getAggregationKey(date: Date, unit: 'day' | 'month' | 'hour'): string {
-    const yyyy = date.getFullYear();
-    const mm = String(date.getMonth() + 1).padStart(2, '0');
-    const dd = String(date.getDate()).padStart(2, '0');
-    const hh = String(date.getHours()).padStart(2, '0');
 
-    if (unit === 'month') return `${yyyy}-${mm}`;
-    if (unit === 'hour') return `${yyyy}-${mm}-${dd} ${hh}:00`;
-    return `${yyyy}-${mm}-${dd}`;
+// Values of a flag that may be repeated, e.g. --session-dir a --session-dir b
+function getFlagValues(flag: string, expected: string): string[] {
+    const values: string[] = [];
+    args.forEach((arg, index) => {
+        if (arg !== flag) return;
+        const value = args[index + 1];
+        if (!value || value.startsWith('--')) {
+            console.error(`Missing value for ${flag}. Expected ${expected}.`);
+            process.exit(1);
+        }
+        values.push(value);
+    });
+    return values;
 }
 
-function estimateTokensFromText(text: string | undefined): number {
-    if (!text) return 0;
-    // Rough heuristic: ~4 UTF-8 bytes per token.
-    return Math.ceil(Buffer.byteLength(text, 'utf8') / 4);
+// A non-negative USD amount such as "20" or "$20"
+function parseUsdAmount(value: string): number | null {
+    const amount = Number(value.trim().replace(/^\$/, ''));
+    return value.trim() && Number.isFinite(amount) && amount >= 0 ? amount : null;
 }
 
-function normalizeModelName(model: string): string {
-    return model
-        .trim()
-        .toLowerCase()
-        .replace(/\s+/g, '-')
-        .replace(/_/g, '-')
-        .replace(/[^a-z0-9.-]/g, '')
-        .replace(/-+/g, '-');
+// A ratio in (0, 1], given as "0.8" or "80%"
+function parseWarnRatio(value: string): number | null {
+    const input = value.trim();
+    const ratio = input.endsWith('%') ? Number(input.slice(0, -1)) / 100 : Number(input);
+    return input && Number.isFinite(ratio) && ratio > 0 && ratio <= 1 ? ratio : null;
 }
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-    return typeof value === 'object' && value !== null;
+function formatBudgetViolation(violation: BudgetViolation): string {
+    const label = violation.scope === 'total' ? 'Total' : `${violation.scope === 'daily' ? 'Day' : 'Month'} ${violation.period}`;
+    const percent = violation.limit > 0 ? ` (${(violation.cost / violation.limit * 100).toFixed(0)}%)` : '';
+    const verb = violation.status === 'over' ? 'exceeds' : 'is approaching';
+    return `${violation.status.toUpperCase()}: ${label} cost $${violation.cost.toFixed(4)} ${verb} the ${violation.scope} budget of $${violation.limit}${percent}`;
 }
 
-function inferSessionIdFromSessionFile(filePath: string): string {
-    const fileName = path.basename(filePath);
-    if (fileName === 'events.jsonl') {
-        return path.basename(path.dirname(filePath));
+// Run the analysis with the options given on the command line
+async function collectSessions(previousCache: ParseCache | null = null): Promise<SessionAnalysis> {
+    let analysis: SessionAnalysis;
+    try {
+        analysis = await analyzeSessions({
+            sessionDirs,
+            logDirs,
+            geminiDirs,
+            vscodeDirs,
+            pricingTable,
+            since: analysisSince,
+            until: analysisUntil,
+            repos: repoFilter,
+            dataSources: dataSourceFilter,
+            assistants: assistantFilter,
+            tokenizer,
+            machine: machineLabel,
+            snapshots,
+            premiumPlan: billing,
+            // merge only combines the given snapshots
+            readLogs: command !== 'merge',
+            cache: { enabled: useCache, rebuild: rebuildCache, previous: previousCache }
+        });
+    } catch (e) {
+        throw new Error(`${(e as Error).message}\nPlease check if the assistant logs exist, or pass --session-dir/--log-dir/--gemini-dir/--vscode-dir or set SESSION_DIR/LOG_DIR/GEMINI_DIR/VSCODE_DIR.`);
     }
 
-    return fileName.replace(/\.jsonl$/i, '');
-}
-
-function findSessionLogFiles(sessionDir: string): string[] {
-    const eventsJsonl: string[] = [];
-    const topLevelJsonl: string[] = [];
-    const stack: string[] = [sessionDir];
+    if (analysis.tokenizer !== tokenizer && !previousCache) {
+        console.error('BPE vocabularies (js-tiktoken) are not installed; falling back to the heuristic tokenizer.');
+    }
 
-    while (stack.length > 0) {
-        const currentDir = stack.pop() as string;
-        let entries: fs.Dirent[];
-        try {
-            entries = fs.readdirSync(currentDir, { withFileTypes: true });
-        } catch {
-            continue;
+    if (verbose) {
+        const { logs, cacheStats } = analysis;
+        for (const root of logs.sessionDirs) {
+            console.log(root.exists ? `Analyzing logs from: ${root.path}` : `Session-state directory not found: ${root.path}`);
         }
-
-        for (const entry of entries) {
-            const fullPath = path.join(currentDir, entry.name);
-
-            if (entry.isDirectory()) {
-                stack.push(fullPath);
-                continue;
+        console.log(`Found ${logs.sessionFiles.length} session logs.`);
+        for (const root of logs.logDirs) {
+            console.log(root.exists ? `Analyzing usage logs from: ${root.path}` : `Usage log directory not found: ${root.path}`);
+        }
+        console.log(`Found ${logs.usageLogFiles.length} usage logs.`);
+        for (const source of analysis.sources.filter(source => source.assistant !== 'copilot-cli')) {
+            for (const root of source.roots) {
+                console.log(root.exists ? `Analyzing ${source.assistant} logs from: ${root.path}` : `${source.assistant} log directory not found: ${root.path}`);
             }
-
-            if (!entry.isFile()) continue;
-
-            if (entry.name === 'events.jsonl') {
-                eventsJsonl.push(fullPath);
-                continue;
+            console.log(`Found ${source.files.length} ${source.assistant} logs.`);
+        }
+        console.log(`Found usage totals for ${analysis.usageFromLogsBySession.size} sessions from usage logs.`);
+        for (const [index, snapshot] of snapshots.entries()) {
+            console.log(`Imported ${snapshot.sessions.length} sessions from snapshot: ${snapshotFiles[index]}`);
+            // Sessions the local logs or an earlier snapshot already had keep that source's machine
+            const relabeled = snapshot.sessions.filter(session => {
+                const owner = analysis.usageFromLogsBySession.get(session.sessionId) || analysis.sessionStateUsage.get(session.sessionId);
+                return owner && owner.machine !== session.machine;
+            }).length;
+            if (relabeled > 0) {
+                console.log(`  ${relabeled} of them were already read from another source and keep its machine label.`);
             }
+        }
+        if (logs.sessionFiles.length > 0) {
+            console.log(`Sample log: ${logs.sessionFiles[0]}`);
+        }
+        if (useCache && command !== 'merge') {
+            console.log(`Parse cache: ${cacheStats.hits} unchanged, ${cacheStats.resumed} resumed, ${cacheStats.misses} parsed (${DEFAULT_PARSE_CACHE_FILE}${rebuildCache ? ', rebuilt' : ''}).`);
+        } else {
+            console.log('Parse cache: disabled.');
+        }
+        if (analysis.cacheWriteError) {
+            console.error(analysis.cacheWriteError);
+        }
+    }
 
-            // Treat any other .jsonl file as a standalone session log, regardless of directory depth
-            if (entry.name.endsWith('.jsonl')) {
-                topLevelJsonl.push(fullPath);
-            }
+    // Watch and serve refreshes only check the first analysis; doctor reports the problems itself
+    if (strictMode && !previousCache && command !== 'doctor') {
+        const problems = summarizeProblems(analysis.diagnostics);
+        if (problems.length > 0) {
+            console.error(`Log problems found (--strict): ${problems.join(', ')}. Run cpusage doctor for details.`);
+            process.exit(STRICT_EXIT_CODE);
         }
     }
 
-    return [...topLevelJsonl, ...eventsJsonl];
+    return analysis;
 }
 
-function findCopilotUsageLogFiles(logDir: string): string[] {
-    if (!fs.existsSync(logDir)) {
-        return [];
+async function analyzeFiles() {
+    const analysis = await collectSessions();
+    const sessions = comparisonWindows ? filterSessions(analysis.sessions, { since, until }) : analysis.sessions;
+
+    const report = buildUsageReport(sessions, {
+        unit: timeUnit,
+        groupBy,
+        rank: rankByCost,
+        limit,
+        filters: reportFilters,
+        budget,
+        billing
+    });
+    const budgetEvaluation = report.budget;
+    const whatIf = whatIfScenarios.length > 0 ? buildWhatIf(report, sessions, whatIfScenarios, pricingTable) : null;
+    const comparison = comparisonWindows
+        ? buildComparison(analysis.sessions, comparisonWindows.current, comparisonWindows.baseline, timeUnit)
+        : null;
+
+    if (budgetEvaluation && budgetEvaluation.violations.length > 0) {
+        const exceeded = budgetEvaluation.violations.some(violation => violation.status === 'over');
+        process.exitCode = exceeded ? BUDGET_EXCEEDED_EXIT_CODE : BUDGET_WARNING_EXIT_CODE;
+
+        // Machine-readable formats keep stdout clean and report warnings on stderr
+        if (outputFormat !== 'table' && outputFormat !== 'markdown' && outputFormat !== 'html' || (jsonOutput && !outputFormatArg)) {
+            for (const violation of budgetEvaluation.violations) {
+                console.error(formatBudgetViolation(violation));
+            }
+        }
     }
 
-    let entries: fs.Dirent[];
-    try {
-        entries = fs.readdirSync(logDir, { withFileTypes: true });
-    } catch {
-        return [];
+    if (jsonOutput && !outputFormatArg) {
+        console.log(JSON.stringify(report.rows.map((row, index) => ({
+            ...toJsonRow(report, row),
+            ...(whatIf ? { whatIf: toJsonWhatIfRow(whatIf, index) } : {})
+        })), null, 2));
+        return;
     }
 
-    const processLogs: string[] = [];
-    const uuidLogs: string[] = [];
+    switch (outputFormat) {
+        case 'json':
+            renderJsonReport(report, whatIf, comparison);
+            break;
+        case 'csv':
+            renderCsvReport(report);
+            break;
+        case 'markdown':
+            renderMarkdownReport(report);
+            break;
+        case 'html':
+            renderHtmlReport(report);
+            break;
+        default:
+            renderTableReport(report);
+            if (whatIf) {
+                renderWhatIfTable(report, whatIf);
+            }
+            if (comparison) {
+                renderComparisonTable(comparison);
+            }
+    }
+}
 
-    for (const entry of entries) {
-        if (!entry.isFile()) continue;
+// Label and value of each summary line of the premium-request estimate
+function getPremiumSummary(report: UsageReport): [string, string][] {
+    const { totals, billing: { allowance, overagePrice } } = report;
+    return [
+        ['Requests', `${totals.requests.toLocaleString('en-US')} (${formatStatValue(totals, 'premiumRequests')} premium requests after multipliers)`],
+        ['Premium Overage Cost', `$${totals.premiumCost.toFixed(4)} (${allowance.toLocaleString('en-US')} included per month, $${overagePrice} per extra request)`]
+    ];
+}
 
-        if (PROCESS_LOG_FILE_PATTERN.test(entry.name)) {
-            processLogs.push(path.join(logDir, entry.name));
-            continue;
-        }
+function getBreakdownLabel(report: UsageReport): string {
+    return report.dimensions
+        .map(dimension => dimension === 'time' ? report.unit : dimension)
+        .join(', ')
+        .toUpperCase();
+}
 
-        if (UUID_LOG_FILE_PATTERN.test(entry.name)) {
-            uuidLogs.push(path.join(logDir, entry.name));
-        }
-    }
+// Percentage of a total, e.g. '42.5%'; '-' when the total is zero
+function formatShare(value: number, total: number): string {
+    return total > 0 ? `${(value / total * 100).toFixed(1)}%` : '-';
+}
 
-    processLogs.sort();
-    uuidLogs.sort();
+// Width of each dimension column of the table report
+function getDimensionWidths(report: UsageReport): number[] {
+    return report.dimensions.map((dimension, index) => {
+        if (dimension === 'time') return Math.max(TIME_KEY_WIDTHS[report.unit], GROUP_DIMENSION_LABELS.time.header.length);
+        const header = GROUP_DIMENSION_LABELS[dimension].header;
+        return Math.max(header.length, ...report.rows.map(row => row.dimensions[index].length));
+    });
+}
 
-    return [...processLogs, ...uuidLogs];
+// Sign of a value as displayed with the given decimals; none when it rounds to zero
+function formatSign(value: number, decimals: number): string {
+    const rounded = Number(value.toFixed(decimals));
+    return rounded < 0 ? '-' : (rounded > 0 ? '+' : '');
 }
 
-function extractUsageFromResponsePayload(payload: unknown): ParsedUsageRecord | null {
-    if (!isRecord(payload)) return null;
+// Signed change from the actual cost, e.g. '-$1.2000'
+function formatCostDelta(actual: number, cost: number): string {
+    const delta = cost - actual;
+    return `${formatSign(delta, 4)}$${Math.abs(delta).toFixed(4)}`;
+}
 
-    const usage = payload.usage;
-    if (!isRecord(usage)) return null;
+// Signed change in percent, e.g. '-80.0%'; '-' without an actual cost
+function formatDeltaPercent(actual: number, cost: number): string {
+    if (actual <= 0) return '-';
+    const percent = (cost - actual) / actual * 100;
+    return `${formatSign(percent, 1)}${Math.abs(percent).toFixed(1)}%`;
+}
 
-    const promptTokens = usage.prompt_tokens;
-    const completionTokens = usage.completion_tokens;
-    if (typeof promptTokens !== 'number' || typeof completionTokens !== 'number') return null;
+// Actual against hypothetical cost of every row, for each --what-if scenario
+function renderWhatIfTable(report: UsageReport, whatIf: WhatIfComparison) {
+    const { scenarios, totals } = whatIf;
+    console.log('\n=== What-If Repricing (token prices) ===');
+    console.log(`Actual Cost: $${totals.actual.toFixed(4)}`);
+    scenarios.forEach((scenario, index) => {
+        const sessionsLabel = scenario.from === null ? 'All sessions' : `${scenario.from} sessions`;
+        const cost = totals.hypothetical[index];
+        console.log(`${sessionsLabel} as ${scenario.model}: $${cost.toFixed(4)} (${formatCostDelta(totals.actual, cost)}, ${formatDeltaPercent(totals.actual, cost)})`);
+    });
+    console.log('');
+
+    const colWidths = getDimensionWidths(report);
+    const columns: { header: string; cells: string[] }[] = [
+        { header: 'Actual', cells: whatIf.rows.map(row => `$${row.actual.toFixed(4)}`) },
+        ...scenarios.flatMap((scenario, index) => [
+            { header: scenario.label, cells: whatIf.rows.map(row => `$${row.hypothetical[index].toFixed(4)}`) },
+            { header: 'Delta', cells: whatIf.rows.map(row => formatCostDelta(row.actual, row.hypothetical[index])) },
+            { header: 'Delta %', cells: whatIf.rows.map(row => formatDeltaPercent(row.actual, row.hypothetical[index])) }
+        ])
+    ];
+    const widths = columns.map(column => Math.max(column.header.length, ...column.cells.map(cell => cell.length)));
+
+    const header = [
+        ...report.dimensions.map((dimension, index) => GROUP_DIMENSION_LABELS[dimension].header.padEnd(colWidths[index])),
+        ...columns.map((column, index) => column.header.padEnd(widths[index]))
+    ];
+    console.log(header.join(' | ').trimEnd());
+    console.log([...colWidths, ...widths].map(width => '-'.repeat(width)).join('-|-'));
+    whatIf.rows.forEach((row, rowIndex) => {
+        const cells = [
+            ...row.dimensions.map((value, index) => value.padEnd(colWidths[index])),
+            ...columns.map((column, index) => column.cells[rowIndex].padEnd(widths[index]))
+        ];
+        console.log(cells.join(' | ').trimEnd());
+    });
+}
 
-    const responseId = typeof payload.id === 'string'
-        ? payload.id
-        : (typeof payload.responseId === 'string' ? payload.responseId : null);
-    const sessionIdValue = payload.sessionId ?? payload.session_id;
-    const sessionId = typeof sessionIdValue === 'string' ? sessionIdValue : null;
-    const model = typeof payload.model === 'string' ? payload.model : null;
+// Change arrow of a delta as displayed with the given decimals
+function formatArrow(delta: number, decimals: number): string {
+    const sign = formatSign(delta, decimals);
+    return sign === '+' ? '▲' : (sign === '-' ? '▼' : '=');
+}
 
-    return {
-        promptTokens,
-        completionTokens,
-        responseId,
-        sessionId,
-        model
-    };
+// Current value with its change from the baseline, e.g. '$1.2000 (▲ +$0.4000, +50.0%)'
+function formatChange(baseline: number, current: number, isCost: boolean): string {
+    const delta = current - baseline;
+    const value = isCost ? `$${current.toFixed(4)}` : current.toLocaleString('en-US');
+    const deltaText = isCost ? formatCostDelta(baseline, current) : `${formatSign(delta, 0)}${Math.abs(delta).toLocaleString('en-US')}`;
+    return `${value} (${formatArrow(delta, isCost ? 4 : 0)} ${deltaText}, ${formatDeltaPercent(baseline, current)})`;
 }
 
-async function analyzeUsageLogFiles(logFiles: string[]): Promise<Map<string, LogSessionUsage>> {
-    const usageBySession = new Map<string, LogSessionUsage>();
-    const seenUsageBySessionAndResponse = new Set<string>();
+const COMPARISON_COLUMNS: { header: string; field: 'sessions' | 'input' | 'output' | 'cost' }[] = [
+    { header: 'Sessions', field: 'sessions' },
+    { header: 'Input Tokens', field: 'input' },
+    { header: 'Output Tokens', field: 'output' },
+    { header: 'Cost', field: 'cost' }
+];
+
+// Label columns followed by the change of each compared stat; the last column is not padded
+function renderChangeTable(labels: { header: string; cells: string[] }[], rows: { current: DailyStats; baseline: DailyStats }[]) {
+    const columns = [
+        ...labels,
+        ...COMPARISON_COLUMNS.map(({ header, field }) => ({
+            header,
+            cells: rows.map(row => formatChange(row.baseline[field], row.current[field], field === 'cost'))
+        }))
+    ];
+    const widths = columns.map(column => Math.max(column.header.length, ...column.cells.map(cell => cell.length)));
+    console.log(columns.map((column, index) => column.header.padEnd(widths[index])).join(' | ').trimEnd());
+    console.log(widths.map(width => '-'.repeat(width)).join('-|-'));
+    rows.forEach((_row, rowIndex) => {
+        console.log(columns.map((column, index) => column.cells[rowIndex].padEnd(widths[index])).join(' | ').trimEnd());
+    });
+}
 
-    for (const filePath of logFiles) {
-        const fileName = path.basename(filePath);
-        const fileSessionId = UUID_LOG_FILE_PATTERN.test(fileName) ? fileName.replace(/\.log$/i, '') : null;
-        let currentSessionId: string | null = fileSessionId;
-        let jsonBuffer: string[] | null = null;
-        let jsonBufferSessionId: string | null = null;
-        let jsonBufferTimestamp: Date | null = null;
+// --compare totals, the buckets of both windows side by side, and the change of each model
+function renderComparisonTable(comparison: PeriodComparison) {
+    const { current, baseline, totals } = comparison;
+    console.log('\n=== Period Comparison ===');
+    console.log(`Current:  ${formatDateTime(current.since)} to ${formatDateTime(current.until)}`);
+    console.log(`Baseline: ${formatDateTime(baseline.since)} to ${formatDateTime(baseline.until)}`);
+    for (const { header, field } of COMPARISON_COLUMNS) {
+        const baselineValue = field === 'cost' ? `$${totals.baseline.cost.toFixed(4)}` : totals.baseline[field].toLocaleString('en-US');
+        console.log(`${header}: ${formatChange(totals.baseline[field], totals.current[field], field === 'cost')} vs ${baselineValue}`);
+    }
 
-        const finalizeJsonBuffer = () => {
-            if (!jsonBuffer) return;
+    console.log(`\n=== Change by ${comparison.unit.toUpperCase()} ===`);
+    renderChangeTable([
+        { header: 'Period', cells: comparison.rows.map(row => row.period || '-') },
+        { header: 'Baseline', cells: comparison.rows.map(row => row.baselinePeriod || '-') }
+    ], comparison.rows);
 
-            const jsonText = jsonBuffer.join('\n').trim();
-            const contextSessionId = jsonBufferSessionId;
-            const contextTimestamp = jsonBufferTimestamp;
-            jsonBuffer = null;
-            jsonBufferSessionId = null;
-            jsonBufferTimestamp = null;
+    console.log('\n=== Change by MODEL ===');
+    if (comparison.models.length === 0) {
+        console.log('No sessions in either window.');
+        return;
+    }
+    renderChangeTable([{ header: 'Model', cells: comparison.models.map(row => row.model) }], comparison.models);
+}
 
-            if (!jsonText) return;
+function renderTableReport(report: UsageReport) {
+    const { totals } = report;
+    console.log('\n=== GitHub Copilot Usage Analysis (Dynamic Pricing) ===');
+    console.log(`Total Sessions: ${totals.sessions}`);
+    console.log(`Total Input Tokens: ${totals.input.toLocaleString()}`);
+    console.log(`  Cached Input Tokens: ${totals.cachedInput.toLocaleString()}`);
+    console.log(`  Cache Write Tokens: ${totals.cacheWrite.toLocaleString()}`);
+    console.log(`Total Output Tokens: ${totals.output.toLocaleString()}`);
+    console.log(`  Reasoning Tokens: ${totals.reasoning.toLocaleString()}`);
+    if (report.billing.mode !== 'premium') {
+        console.log(`Estimated Total Cost: $${totals.cost.toFixed(4)}`);
+        const defaultPricing = pricingTable['default'];
+        console.log(`(Default Pricing: $${defaultPricing.input.toFixed(2)}/$${defaultPricing.output.toFixed(2)} per 1M tokens, ${defaultPricing.source})`);
+    }
+    if (report.billing.mode !== 'tokens') {
+        for (const [label, value] of getPremiumSummary(report)) {
+            console.log(`${label}: ${value}`);
+        }
+    }
+    console.log('Data Sources (usage-log is measured, the others are estimates):');
+    const totalTokens = totals.input + totals.output;
+    for (const source of SESSION_DATA_SOURCES) {
+        const sourceStats = totals.sources[source];
+        console.log(`  ${`${source}:`.padEnd(11)} ${sourceStats.sessions} sessions, ${sourceStats.tokens.toLocaleString()} tokens (${formatShare(sourceStats.tokens, totalTokens)}), $${sourceStats.cost.toFixed(4)} (${formatShare(sourceStats.cost, totals.cost)})`);
+    }
 
-            let payload: unknown;
-            try {
-                payload = JSON.parse(jsonText);
-            } catch {
-                return;
-            }
+    console.log(`\n=== Breakdown by ${getBreakdownLabel(report)} ===`);
+    const colWidths = getDimensionWidths(report);
+    const dimensionHeader = report.dimensions.map((dimension, index) => GROUP_DIMENSION_LABELS[dimension].header.padEnd(colWidths[index])).join(' | ');
+    const dimensionRule = colWidths.map(width => '-'.repeat(width)).join('-|-');
+
+    // Offending rows are marked in an extra column when a budget is configured
+    const budgetHeader = report.budget ? ' | Budget' : '';
+    const budgetRule = report.budget ? '-|-------' : '';
+    // Token cost and/or premium request columns, depending on the billing mode
+    const costColumns = getReportStatColumns(report.billing.mode).filter(column => COST_FIELDS.includes(column.field));
+    const costHeader = costColumns.map(column => column.header).join(' | ');
+    const costRule = costColumns.map(column => '-'.repeat(column.header.length)).join('-|-');
+    // Session counts and token shares per data source: usage-log / truncation / heuristic
+    console.log(`${dimensionHeader} | Sessions | Input Tokens | Cached Input | Cache Write | Output Tokens | Reasoning | Sources U/T/H | Token % U/T/H | ${costHeader}${budgetHeader}`);
+    console.log(`${dimensionRule}-|----------|--------------|--------------|-------------|---------------|-----------|---------------|---------------|-${costRule}${budgetRule}`);
+
+    for (const { dimensions, stats, budgetStatus } of report.rows) {
+        const dimensionCells = dimensions.map((value, index) => value.padEnd(colWidths[index])).join(' | ');
+        // The last column is not padded, so lines carry no trailing spaces
+        const costCells = costColumns.map((column, index) => {
+            const value = formatStatValue(stats, column.field);
+            return index < costColumns.length - 1 || report.budget ? value.padEnd(column.header.length) : value;
+        }).join(' | ');
+        const budgetCell = report.budget ? (budgetStatus ? ` | ${budgetStatus.toUpperCase()}` : ' |') : '';
+        const rowTokens = stats.input + stats.output;
+        const sourceCounts = SESSION_DATA_SOURCES.map(source => stats.sources[source].sessions).join('/');
+        const sourceShares = rowTokens > 0
+            ? SESSION_DATA_SOURCES.map(source => Math.round(stats.sources[source].tokens / rowTokens * 100)).join('/')
+            : '-';
+        console.log(`${dimensionCells} | ${stats.sessions.toString().padEnd(8)} | ${stats.input.toString().padEnd(12)} | ${stats.cachedInput.toString().padEnd(12)} | ${stats.cacheWrite.toString().padEnd(11)} | ${stats.output.toString().padEnd(13)} | ${stats.reasoning.toString().padEnd(9)} | ${sourceCounts.padEnd(13)} | ${sourceShares.padEnd(13)} | ${costCells}${budgetCell}`);
+    }
+    // Rows can only cross a limit of their own period, so other groupings leave the column blank
+    if (report.budget) {
+        const { daily, monthly } = report.budget.config;
+        const marksRows = report.dimensions.includes('time')
+            && ((report.unit === 'day' && daily !== null) || (report.unit === 'month' && monthly !== null));
+        if (!marksRows) {
+            console.log('(The Budget column only marks day rows against the daily budget and month rows against the monthly budget.)');
+        }
+    }
 
-            const usageRecord = extractUsageFromResponsePayload(payload);
-            if (!usageRecord) return;
+    if (report.budget && report.budget.violations.length > 0) {
+        console.log('\n=== Budget Warnings ===');
+        for (const violation of report.budget.violations) {
+            console.log(formatBudgetViolation(violation));
+        }
+    }
+}
 
-            const sessionId = usageRecord.sessionId || contextSessionId || fileSessionId;
-            if (!sessionId || !UUID_PATTERN.test(sessionId)) return;
+// Versioned envelope; `--json` keeps printing the bare rows array for compatibility
+function renderJsonReport(report: UsageReport, whatIf: WhatIfComparison | null, comparison: PeriodComparison | null) {
+    const json = toJsonReport(report, pricingTable);
+    const output = whatIf ? {
+        ...json,
+        whatIf: toJsonWhatIf(whatIf),
+        rows: json.rows.map((row, index) => ({ ...row, whatIf: toJsonWhatIfRow(whatIf, index) }))
+    } : json;
+    console.log(JSON.stringify(comparison ? { ...output, comparison: toJsonComparison(comparison) } : output, null, 2));
+}
 
-            if (usageRecord.responseId) {
-                const dedupeKey = `${sessionId}:${usageRecord.responseId}`;
-                if (seenUsageBySessionAndResponse.has(dedupeKey)) {
-                    return;
-                }
-                seenUsageBySessionAndResponse.add(dedupeKey);
-            }
+// Plain numbers for spreadsheets: USD amounts with 4 decimals, premium requests with up to 2
+function formatCsvStat(stats: DailyStats, field: StatField): string | number {
+    if (field === 'cost' || field === 'premiumCost') return stats[field].toFixed(4);
+    if (field === 'premiumRequests') return Number(stats[field].toFixed(2));
+    return stats[field];
+}
 
-            const existing = usageBySession.get(sessionId);
-            if (existing) {
-                existing.inputTokens += usageRecord.promptTokens;
-                existing.outputTokens += usageRecord.completionTokens;
-                if (existing.model === 'default' && usageRecord.model) {
-                    existing.model = usageRecord.model;
-                }
-                if (contextTimestamp && (!existing.timestamp || contextTimestamp < existing.timestamp)) {
-                    existing.timestamp = contextTimestamp;
-                }
-            } else {
-                usageBySession.set(sessionId, {
-                    inputTokens: usageRecord.promptTokens,
-                    outputTokens: usageRecord.completionTokens,
-                    model: usageRecord.model || 'default',
-                    timestamp: contextTimestamp
-                });
-            }
-        };
+function formatCsvValue(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
 
-        const fileStream = fs.createReadStream(filePath);
-        const rl = readline.createInterface({
-            input: fileStream,
-            crlfDelay: Infinity
-        });
+function renderCsvReport(report: UsageReport) {
+    const statColumns = getReportStatColumns(report.billing.mode);
+    const header = [
+        ...report.dimensions.map(dimension => GROUP_DIMENSION_LABELS[dimension].header),
+        ...statColumns.map(column => CSV_HEADERS[column.field] || column.header),
+        ...(report.budget ? ['Budget'] : [])
+    ];
+    const lines = [header.map(formatCsvValue).join(',')];
+    for (const { dimensions, stats, budgetStatus } of report.rows) {
+        const values = [
+            ...dimensions,
+            ...statColumns.map(column => formatCsvStat(stats, column.field)),
+            ...(report.budget ? [budgetStatus || ''] : [])
+        ];
+        lines.push(values.map(formatCsvValue).join(','));
+    }
+    console.log(lines.join('\n'));
+}
 
-        for await (const line of rl) {
-            const prefixMatch = line.match(LOG_PREFIX_PATTERN);
+function escapeMarkdown(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|');
+}
 
-            if (jsonBuffer && prefixMatch) {
-                finalizeJsonBuffer();
-            }
+function renderMarkdownReport(report: UsageReport) {
+    const { totals } = report;
+    const statColumns = getReportStatColumns(report.billing.mode);
+    const lines = [
+        '## GitHub Copilot Usage Analysis',
+        '',
+        `- **Total Sessions:** ${totals.sessions.toLocaleString('en-US')}`,
+        `- **Total Input Tokens:** ${totals.input.toLocaleString('en-US')} (cached ${totals.cachedInput.toLocaleString('en-US')}, cache write ${totals.cacheWrite.toLocaleString('en-US')})`,
+        `- **Total Output Tokens:** ${totals.output.toLocaleString('en-US')} (reasoning ${totals.reasoning.toLocaleString('en-US')})`,
+        ...(report.billing.mode !== 'premium' ? [`- **Estimated Total Cost:** $${totals.cost.toFixed(4)}`] : []),
+        ...(report.billing.mode !== 'tokens' ? getPremiumSummary(report).map(([label, value]) => `- **${label}:** ${value}`) : []),
+        `- **Generated:** ${report.generatedAt.toISOString()}`,
+        '',
+        `### Breakdown by ${getBreakdownLabel(report)}`,
+        '',
+        `| ${[...report.dimensions.map(dimension => GROUP_DIMENSION_LABELS[dimension].header), ...statColumns.map(column => column.header), ...(report.budget ? ['Budget'] : [])].join(' | ')} |`,
+        `| ${[...report.dimensions.map(() => '---'), ...statColumns.map(() => '---:'), ...(report.budget ? ['---'] : [])].join(' | ')} |`
+    ];
+    for (const { dimensions, stats, budgetStatus } of report.rows) {
+        const cells = [
+            ...dimensions.map(escapeMarkdown),
+            ...statColumns.map(column => formatStatValue(stats, column.field)),
+            ...(report.budget ? [budgetStatus ? `**${budgetStatus.toUpperCase()}**` : ''] : [])
+        ];
+        lines.push(`| ${cells.join(' | ')} |`);
+    }
+    if (report.budget && report.budget.violations.length > 0) {
+        lines.push('', '### Budget Warnings', '');
+        lines.push(...report.budget.violations.map(violation => `- ${escapeMarkdown(formatBudgetViolation(violation))}`));
+    }
+    console.log(lines.join('\n'));
+}
 
-            if (!prefixMatch) {
-                if (jsonBuffer) {
-                    jsonBuffer.push(line);
-                }
-                continue;
-            }
+// Single self-contained page: totals, a cost bar chart and the breakdown table
+function renderHtmlReport(report: UsageReport) {
+    const { totals } = report;
+    const title = `GitHub Copilot Usage Analysis - Breakdown by ${getBreakdownLabel(report)}`;
+    const statColumns = getReportStatColumns(report.billing.mode);
+    // Premium-only reports chart premium requests instead of the token cost
+    const chartField: StatField = report.billing.mode === 'premium' ? 'premiumRequests' : 'cost';
+    const maxValue = Math.max(0, ...report.rows.map(row => row.stats[chartField]));
+    const summary = [
+        ['Total Sessions', totals.sessions.toLocaleString('en-US')],
+        ['Total Input Tokens', totals.input.toLocaleString('en-US')],
+        ['Cached Input Tokens', totals.cachedInput.toLocaleString('en-US')],
+        ['Total Output Tokens', totals.output.toLocaleString('en-US')],
+        ['Reasoning Tokens', totals.reasoning.toLocaleString('en-US')],
+        ...(report.billing.mode !== 'premium' ? [['Estimated Total Cost', `$${totals.cost.toFixed(4)}`]] : []),
+        ...(report.billing.mode !== 'tokens' ? [
+            ['Premium Requests', formatStatValue(totals, 'premiumRequests')],
+            ['Premium Overage Cost', formatStatValue(totals, 'premiumCost')]
+        ] : [])
+    ];
+
+    const bars = report.rows.map(({ dimensions, stats }) => {
+        const width = maxValue > 0 ? (stats[chartField] / maxValue * 100).toFixed(2) : '0';
+        return `      <div class="bar-row"><span class="bar-label">${escapeHtml(dimensions.join(' / '))}</span>` +
+            `<span class="bar-track"><span class="bar" style="width: ${width}%"></span></span>` +
+            `<span class="bar-value">${escapeHtml(formatStatValue(stats, chartField))}</span></div>`;
+    });
+
+    const headerCells = [
+        ...report.dimensions.map(dimension => `<th>${escapeHtml(GROUP_DIMENSION_LABELS[dimension].header)}</th>`),
+        ...statColumns.map(column => `<th class="num">${escapeHtml(column.header)}</th>`),
+        ...(report.budget ? ['<th>Budget</th>'] : [])
+    ];
+    const bodyRows = report.rows.map(({ dimensions, stats, budgetStatus }) => {
+        const cells = [
+            ...dimensions.map(value => `<td>${escapeHtml(value)}</td>`),
+            ...statColumns.map(column => `<td class="num">${escapeHtml(formatStatValue(stats, column.field))}</td>`),
+            ...(report.budget ? [`<td>${budgetStatus ? budgetStatus.toUpperCase() : ''}</td>`] : [])
+        ];
+        return `        <tr${budgetStatus ? ` class="budget-${budgetStatus}"` : ''}>${cells.join('')}</tr>`;
+    });
+    const budgetWarnings = report.budget && report.budget.violations.length > 0
+        ? `  <ul class="budget">\n${report.budget.violations.map(violation => `    <li class="budget-${violation.status}">${escapeHtml(formatBudgetViolation(violation))}</li>`).join('\n')}\n  </ul>\n`
+        : '';
+
+    console.log(`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+    h1 { font-size: 1.4rem; }
+    .summary { display: flex; flex-wrap: wrap; gap: 1rem; margin-bottom: 2rem; }
+    .card { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem 1rem; min-width: 10rem; }
+    .card .label { font-size: 0.8rem; color: #59636e; }
+    .card .value { font-size: 1.2rem; font-weight: 600; }
+    .chart { margin-bottom: 2rem; }
+    .bar-row { display: flex; align-items: center; gap: 0.5rem; margin: 2px 0; font-size: 0.85rem; }
+    .bar-label { width: 16rem; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .bar-track { flex: 1; background: #f6f8fa; height: 0.9rem; }
+    .bar { display: block; height: 100%; background: #2f81f7; }
+    .bar-value { width: 6rem; text-align: right; }
+    table { border-collapse: collapse; font-size: 0.85rem; }
+    th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; }
+    th { background: #f6f8fa; text-align: left; }
+    .num { text-align: right; font-variant-numeric: tabular-nums; }
+    .budget-warn { background: #fff8c5; }
+    .budget-over { background: #ffebe9; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>Generated ${escapeHtml(report.generatedAt.toISOString())}</p>
+${budgetWarnings}  <div class="summary">
+${summary.map(([label, value]) => `    <div class="card"><div class="label">${escapeHtml(label)}</div><div class="value">${escapeHtml(value)}</div></div>`).join('\n')}
+  </div>
+  <div class="chart">
+${bars.join('\n')}
+  </div>
+  <table>
+    <thead>
+      <tr>${headerCells.join('')}</tr>
+    </thead>
+    <tbody>
+${bodyRows.join('\n')}
+    </tbody>
+  </table>
+</body>
+</html>`);
+}
 
-            const payloadLine = prefixMatch[2] || '';
-            const sessionMatch = payloadLine.match(SESSION_CONTEXT_PATTERN);
-            if (sessionMatch) {
-                currentSessionId = sessionMatch[1];
-            }
+async function listSessions() {
+    const { sessions } = await collectSessions();
 
-            if (!jsonBuffer && payloadLine.trimStart().startsWith('{')) {
-                const timestamp = new Date(prefixMatch[1]);
-                jsonBuffer = [payloadLine];
-                jsonBufferSessionId = currentSessionId;
-                jsonBufferTimestamp = Number.isNaN(timestamp.getTime()) ? null : timestamp;
-            }
-        }
+    let sortedSessions = sortSessions(sessions, sessionSort);
+    if (limit !== Infinity) {
+        sortedSessions = sortedSessions.slice(0, limit);
+    }
 
-        if (jsonBuffer) {
-            finalizeJsonBuffer();
-        }
+    if (jsonOutput || outputFormat === 'json') {
+        const outputData = sortedSessions.map(session => toJsonSession(session, billing.mode));
+        console.log(JSON.stringify(outputData, null, 2));
+        return;
     }
 
-    return usageBySession;
+    console.log(`\n=== Sessions (${sortedSessions.length} of ${sessions.length}, by ${sessionSort.toUpperCase()}) ===`);
+    const modelColWidth = Math.max('Model'.length, ...sortedSessions.map(session => session.model.length));
+    const repoColWidth = Math.max('Repository'.length, ...sortedSessions.map(session => (session.context.repository || UNKNOWN_GROUP_VALUE).length));
+    // Token cost and/or the premium request estimate, depending on the billing mode
+    const costColumns: { header: string; format: (session: SessionRecord) => string }[] = [
+        ...(billing.mode !== 'premium' ? [{ header: 'Est. Cost', format: (session: SessionRecord) => `$${session.cost.toFixed(4)}` }] : []),
+        ...(billing.mode !== 'tokens' ? [
+            { header: 'Requests', format: (session: SessionRecord) => session.requests.toString() },
+            { header: 'Premium Req.', format: (session: SessionRecord) => session.premiumRequests.toLocaleString('en-US', { maximumFractionDigits: 2 }) },
+            { header: 'Premium Cost', format: (session: SessionRecord) => `$${session.premiumCost.toFixed(4)}` }
+        ] : [])
+    ];
+    const costHeader = costColumns.map(column => column.header).join(' | ');
+    const costRule = costColumns.map(column => '-'.repeat(column.header.length)).join('-|-');
+
+    console.log(`${'Session ID'.padEnd(36)} | ${'Start'.padEnd(16)} | ${'Model'.padEnd(modelColWidth)} | ${'Repository'.padEnd(repoColWidth)} | Source        | Input Tokens | Cached Input | Cache Write | Output Tokens | Reasoning | ${costHeader}`);
+    console.log(`${'-'.repeat(36)}-|-${'-'.repeat(16)}-|-${'-'.repeat(modelColWidth)}-|-${'-'.repeat(repoColWidth)}-|---------------|--------------|--------------|-------------|---------------|-----------|-${costRule}`);
+
+    for (const session of sortedSessions) {
+        const repository = session.context.repository || UNKNOWN_GROUP_VALUE;
+        const costCells = costColumns.map((column, index) => {
+            const value = column.format(session);
+            return index < costColumns.length - 1 ? value.padEnd(column.header.length) : value;
+        }).join(' | ');
+        console.log(`${session.sessionId.padEnd(36)} | ${formatDateTime(session.date)} | ${session.model.padEnd(modelColWidth)} | ${repository.padEnd(repoColWidth)} | ${session.dataSource.padEnd(13)} | ${session.inputTokens.toString().padEnd(12)} | ${session.cachedInputTokens.toString().padEnd(12)} | ${session.cacheWriteTokens.toString().padEnd(11)} | ${session.outputTokens.toString().padEnd(13)} | ${session.reasoningTokens.toString().padEnd(9)} | ${costCells}`);
+    }
 }
 
-async function analyzeFiles() {
-    const hasSessionDir = fs.existsSync(SESSION_DIR);
-    const hasLogDir = fs.existsSync(LOG_DIR);
+async function showSession(sessionIdArg: string | undefined) {
+    if (!sessionIdArg || !UUID_PATTERN.test(sessionIdArg)) {
+        console.error(`Invalid session ID: ${sessionIdArg || ''}. Expected a UUID.`);
+        process.exit(1);
+    }
 
-    if (!hasSessionDir && !hasLogDir) {
-        console.error(`Directory not found: ${SESSION_DIR} or ${LOG_DIR}`);
-        console.error(`Please check if Copilot logs exist or set SESSION_DIR environment variable.`);
+    const sessionId = sessionIdArg.toLowerCase();
+    const { sessions, sessionStateUsage, usageFromLogsBySession } = await collectSessions();
+    const stateUsage = sessionStateUsage.get(sessionId);
+    const logUsage = usageFromLogsBySession.get(sessionId);
+    // Machine and assistant come from the usage log when there is one
+    const sessionOrigin = logUsage || stateUsage;
+    if (!sessionOrigin) {
+        console.error(`Session not found: ${sessionId}`);
         process.exit(1);
     }
 
-    const files = hasSessionDir ? findSessionLogFiles(SESSION_DIR) : [];
-    const usageLogFiles = hasLogDir ? findCopilotUsageLogFiles(LOG_DIR) : [];
-    const usageFromLogsBySession = await analyzeUsageLogFiles(usageLogFiles);
+    const record = sessions.find(session => session.sessionId === sessionId);
+    const stateModel = stateUsage ? stateUsage.model : 'default';
+    const statePricingKey = resolvePricingKey(stateModel, pricingTable);
+    const stateCost = stateUsage
+        ? calculateCost(pricingTable[statePricingKey], stateUsage)
+        : 0;
+    const responses = logUsage
+        ? logUsage.responses.map(response => {
+            const pricingKey = resolvePricingKey(response.model || logUsage.model, pricingTable);
+            return {
+                ...response,
+                pricingKey,
+                cost: calculateCost(pricingTable[pricingKey], response)
+            };
+        })
+        : [];
+    // Each response is priced as its own model, so a session that switched models is mixed
+    const logPricingKeys = [...new Set(responses.map(response => response.pricingKey))];
+    const logPricingKey = logPricingKeys.length > 1 ? 'mixed' : (logPricingKeys[0] || resolvePricingKey(logUsage ? logUsage.model : stateModel, pricingTable));
+    const logModel = logPricingKeys.length > 1 ? 'mixed' : (logUsage ? logUsage.model : stateModel);
+    const logCost = responses.reduce((sum, response) => sum + response.cost, 0);
+    const context = stateUsage ? stateUsage.context : (record ? record.context : {});
+    const { machine, assistant } = sessionOrigin;
+
+    if (jsonOutput || outputFormat === 'json') {
+        const outputData = {
+            sessionId,
+            startTime: (stateUsage ? stateUsage.date : logUsage?.timestamp)?.toISOString() || null,
+            repository: context.repository || null,
+            branch: context.branch || null,
+            cwd: context.cwd || null,
+            source: logUsage ? (logUsage.estimated ? 'heuristic' : 'usage-log') : (stateUsage ? stateUsage.dataSource : null),
+            machine,
+            assistant,
+            sessionState: stateUsage ? {
+                model: stateUsage.model,
+                pricingKey: statePricingKey,
+                input: stateUsage.inputTokens,
+                output: stateUsage.outputTokens,
+                cost: Number(stateCost.toFixed(4))
+            } : null,
+            usageLog: logUsage ? {
+                model: logModel,
+                pricingKey: logPricingKey,
+                pricingKeys: logPricingKeys,
+                responses: responses.length,
+                input: logUsage.inputTokens,
+                output: logUsage.outputTokens,
+                cachedInput: logUsage.cachedInputTokens,
+                cacheWrite: logUsage.cacheWriteTokens,
+                reasoning: logUsage.reasoningTokens,
+                cost: Number(logCost.toFixed(4))
+            } : null,
+            responses: responses.map(response => ({
+                responseId: response.responseId,
+                timestamp: response.timestamp ? response.timestamp.toISOString() : null,
+                model: response.model,
+                pricingKey: response.pricingKey,
+                input: response.inputTokens,
+                output: response.outputTokens,
+                cachedInput: response.cachedInputTokens,
+                cacheWrite: response.cacheWriteTokens,
+                reasoning: response.reasoningTokens,
+                cost: Number(response.cost.toFixed(4))
+            })),
+            ...(billing.mode !== 'tokens' ? {
+                premium: record ? {
+                    requests: record.requests,
+                    premiumRequests: Number(record.premiumRequests.toFixed(2)),
+                    premiumCost: Number(record.premiumCost.toFixed(4))
+                } : null
+            } : {})
+        };
+        console.log(JSON.stringify(outputData, null, 2));
+        return;
+    }
 
-    if (verbose) {
-        if (hasSessionDir) {
-            console.log(`Analyzing logs from: ${SESSION_DIR}`);
-            console.log(`Found ${files.length} session logs.`);
-        } else {
-            console.log(`Session-state directory not found: ${SESSION_DIR}`);
-        }
-        if (hasLogDir) {
-            console.log(`Analyzing usage logs from: ${LOG_DIR}`);
-            console.log(`Found ${usageLogFiles.length} usage logs.`);
-        } else {
-            console.log(`Usage log directory not found: ${LOG_DIR}`);
-        }
-        console.log(`Found usage totals for ${usageFromLogsBySession.size} sessions from usage logs.`);
-        if (files.length > 0) {
-            console.log(`Sample log: ${files[0]}`);
-        }
+    const startTime = stateUsage ? stateUsage.date : logUsage?.timestamp;
+    console.log(`\n=== Session ${sessionId} ===`);
+    console.log(`Start Time: ${startTime ? formatDateTime(startTime) : UNKNOWN_GROUP_VALUE}`);
+    console.log(`Repository: ${context.repository || UNKNOWN_GROUP_VALUE}`);
+    console.log(`Branch: ${context.branch || UNKNOWN_GROUP_VALUE}`);
+    console.log(`Working Directory: ${context.cwd || UNKNOWN_GROUP_VALUE}`);
+    console.log(`Data Source: ${logUsage ? (logUsage.estimated ? 'heuristic' : 'usage-log') : (stateUsage ? stateUsage.dataSource : UNKNOWN_GROUP_VALUE)}`);
+    console.log(`Machine: ${machine}`);
+    console.log(`Assistant: ${assistant}`);
+
+    if (billing.mode !== 'tokens' && record) {
+        console.log('\n=== Premium Requests ===');
+        console.log(`Requests: ${record.requests}`);
+        console.log(`Premium Requests: ${record.premiumRequests.toLocaleString('en-US', { maximumFractionDigits: 2 })} (after model multipliers)`);
+        console.log(`Premium Overage Cost: $${record.premiumCost.toFixed(4)} (${billing.allowance.toLocaleString('en-US')} included per month, $${billing.overagePrice} per extra request)`);
     }
 
-    let totalSessions = 0;
-    let totalInputTokens = 0;
-    let totalOutputTokens = 0;
-    let totalCost = 0;
-    const aggStats: Record<string, DailyStats> = {};
-    const sessionStateUsage = new Map<string, SessionUsage>();
+    console.log('\n=== Session-State Estimate (events.jsonl) ===');
+    if (stateUsage) {
+        console.log(`Model: ${stateUsage.model} (priced as ${statePricingKey})`);
+        console.log(`Input Tokens: ${stateUsage.inputTokens.toLocaleString()}`);
+        console.log(`Output Tokens: ${stateUsage.outputTokens.toLocaleString()}`);
+        console.log(`Estimated Cost: $${stateCost.toFixed(4)}`);
+    } else {
+        console.log('No session-state log found for this session.');
+    }
 
-    const addSessionUsage = (sessionDateObj: Date, sessionInputTokens: number, sessionOutputTokens: number, sessionModel: string) => {
-        totalSessions++;
-        totalInputTokens += sessionInputTokens;
-        totalOutputTokens += sessionOutputTokens;
+    console.log('\n=== Usage Log Totals ===');
+    if (!logUsage) {
+        console.log('No usage log entries found for this session.');
+        return;
+    }
+    if (logPricingKeys.length > 1) {
+        console.log(`Model: mixed (priced per response as ${logPricingKeys.join(', ')})`);
+    } else {
+        console.log(`Model: ${logModel} (priced as ${logPricingKey})`);
+    }
+    console.log(`Responses: ${responses.length}`);
+    console.log(`Input Tokens: ${logUsage.inputTokens.toLocaleString()}`);
+    console.log(`  Cached Input Tokens: ${logUsage.cachedInputTokens.toLocaleString()}`);
+    console.log(`  Cache Write Tokens: ${logUsage.cacheWriteTokens.toLocaleString()}`);
+    console.log(`Output Tokens: ${logUsage.outputTokens.toLocaleString()}`);
+    console.log(`  Reasoning Tokens: ${logUsage.reasoningTokens.toLocaleString()}`);
+    console.log(`Estimated Cost: $${logCost.toFixed(4)}`);
+
+    console.log('\n=== Per-Response Usage ===');
+    const responseIdColWidth = Math.max('Response ID'.length, ...responses.map(response => (response.responseId || '-').length));
+    const modelColWidth = Math.max('Model'.length, ...responses.map(response => response.pricingKey.length));
+    console.log(`${'Time'.padEnd(16)} | ${'Response ID'.padEnd(responseIdColWidth)} | ${'Model'.padEnd(modelColWidth)} | Input Tokens | Cached Input | Cache Write | Output Tokens | Reasoning | Est. Cost`);
+    console.log(`${'-'.repeat(16)}-|-${'-'.repeat(responseIdColWidth)}-|-${'-'.repeat(modelColWidth)}-|--------------|--------------|-------------|---------------|-----------|----------`);
+    for (const response of responses) {
+        const time = response.timestamp ? formatDateTime(response.timestamp) : '-';
+        console.log(`${time.padEnd(16)} | ${(response.responseId || '-').padEnd(responseIdColWidth)} | ${response.pricingKey.padEnd(modelColWidth)} | ${response.inputTokens.toString().padEnd(12)} | ${response.cachedInputTokens.toString().padEnd(12)} | ${response.cacheWriteTokens.toString().padEnd(11)} | ${response.outputTokens.toString().padEnd(13)} | ${response.reasoningTokens.toString().padEnd(9)} | $${response.cost.toFixed(4)}`);
+    }
+}
 
-        // Determine pricing for this session
-        let pricing = PRICING_TABLE[sessionModel] || PRICING_TABLE['default'];
+// One phrase per kind of problem found, e.g. '3 parse issues in 1 file'; empty when there are none
+function summarizeProblems(diagnostics: AnalysisDiagnostics): string[] {
+    const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+    const issueCount = diagnostics.files.reduce((sum, file) => sum + file.issueCount, 0);
+    return [
+        ...(issueCount > 0 ? [`${plural(issueCount, 'parse issue')} in ${plural(diagnostics.files.length, 'file')}`] : []),
+        ...(diagnostics.sessions.length > 0 ? [`${plural(diagnostics.sessions.length, 'session')} without a usable start`] : []),
+        ...(diagnostics.unknownModels.length > 0 ? [`${plural(diagnostics.unknownModels.length, 'model')} priced as default`] : [])
+    ];
+}
 
-        // Normalize model name check (case insensitive)
-        const normalizedModel = normalizeModelName(sessionModel);
-        for (const key of Object.keys(PRICING_TABLE)) {
-            if (normalizedModel.includes(key)) {
-                pricing = PRICING_TABLE[key];
-                break;
-            }
-        }
+// Problems that the reports otherwise skip silently
+async function showDoctor() {
+    const { diagnostics, logs, sources } = await collectSessions();
+    const usageLogCount = sources.reduce((count, source) => count + source.files.length, 0);
+    const problems = summarizeProblems(diagnostics);
+    if (strictMode && problems.length > 0) {
+        process.exitCode = STRICT_EXIT_CODE;
+    }
 
-        const sessionCost = (sessionInputTokens / 1_000_000 * pricing.input) +
-                            (sessionOutputTokens / 1_000_000 * pricing.output);
+    if (jsonOutput || outputFormat === 'json') {
+        const outputData = {
+            checked: { sessionFiles: logs.sessionFiles.length, usageLogFiles: usageLogCount, snapshots: snapshots.length },
+            files: diagnostics.files,
+            sessions: diagnostics.sessions,
+            unknownModels: diagnostics.unknownModels.map(model => ({ ...model, cost: Number(model.cost.toFixed(4)) }))
+        };
+        console.log(JSON.stringify(outputData, null, 2));
+        return;
+    }
 
-        totalCost += sessionCost;
+    console.log('\n=== cpusage doctor ===');
+    console.log(`Checked ${logs.sessionFiles.length} session-state logs and ${usageLogCount} usage logs${snapshots.length > 0 ? `, plus ${snapshots.length} snapshots` : ''}.`);
 
-        const aggKey = getAggregationKey(sessionDateObj, timeUnit);
-        if (!aggStats[aggKey]) {
-            aggStats[aggKey] = { sessions: 0, input: 0, output: 0, cost: 0 };
+    console.log('\n=== Parse Issues ===');
+    if (diagnostics.files.length === 0) {
+        console.log('No malformed lines or unattributed usage.');
+    }
+    for (const file of diagnostics.files) {
+        console.log(`${file.file} (${file.assistant === 'copilot-cli' ? file.type : `${file.assistant} ${file.type}`}, ${file.issueCount} issue${file.issueCount === 1 ? '' : 's'})`);
+        for (const issue of file.issues) {
+            console.log(`  line ${issue.line}: [${issue.kind}] ${issue.message}`);
         }
-        aggStats[aggKey].sessions++;
-        aggStats[aggKey].input += sessionInputTokens;
-        aggStats[aggKey].output += sessionOutputTokens;
-        aggStats[aggKey].cost += sessionCost;
-    };
+        if (file.issueCount > file.issues.length) {
+            console.log(`  ... ${file.issueCount - file.issues.length} more not shown`);
+        }
+    }
 
-    for (const filePath of files) {
-        const fileStream = fs.createReadStream(filePath);
-        const rl = readline.createInterface({
-            input: fileStream,
-            crlfDelay: Infinity
-        });
+    console.log('\n=== Sessions Left Out ===');
+    if (diagnostics.sessions.length === 0) {
+        console.log('Every session-state log has a valid session.start time.');
+    } else {
+        console.log(`${'Session ID'.padEnd(36)} | Problem                           | Tokens     | File`);
+        console.log(`${'-'.repeat(36)}-|-----------------------------------|------------|-----`);
+        for (const session of diagnostics.sessions) {
+            const problem = session.problem === 'missing-start' ? 'no session.start event' : `invalid start time '${session.startTime}'`;
+            console.log(`${session.sessionId.padEnd(36)} | ${problem.padEnd(33)} | ${session.tokens.toString().padEnd(10)} | ${session.file}`);
+        }
+    }
 
-        let sessionDateObj: Date | null = null;
-        let sessionId = inferSessionIdFromSessionFile(filePath);
-        let sessionInputTokensFromMessages = 0;
-        let sessionInputTokensFromTruncationSum = 0;
-        let sessionOutputTokens = 0;
-        let sessionModel = 'default'; // Default model
-
-        for await (const line of rl) {
-            try {
-                if (!line.trim()) continue;
-                const event = JSON.parse(line) as LogEvent;
-
-                // Get Session Date
-                if (event.type === 'session.start' && event.data.startTime) {
-                    sessionDateObj = new Date(event.data.startTime);
-                    if (event.data.sessionId) {
-                        sessionId = event.data.sessionId;
-                    }
-                    
-                    // Attempt to find model in session.start (if ever added)
-                    sessionModel = event.data.selectedModel || event.data.selectedMode || event.data.model || sessionModel;
-                }
+    console.log('\n=== Models Priced as Default ===');
+    if (diagnostics.unknownModels.length === 0) {
+        console.log('Every model matched a pricing entry.');
+    } else {
+        const modelColWidth = Math.max('Model'.length, ...diagnostics.unknownModels.map(model => model.model.length));
+        console.log(`${'Model'.padEnd(modelColWidth)} | Sessions | Input Tokens | Output Tokens | Est. Cost`);
+        console.log(`${'-'.repeat(modelColWidth)}-|----------|--------------|---------------|----------`);
+        for (const model of diagnostics.unknownModels) {
+            console.log(`${model.model.padEnd(modelColWidth)} | ${model.sessions.toString().padEnd(8)} | ${model.inputTokens.toString().padEnd(12)} | ${model.outputTokens.toString().padEnd(13)} | $${model.cost.toFixed(4)}`);
+        }
+        const noModelNote = diagnostics.unknownModels.some(model => model.model === 'default') ? "'default' means no model was logged. " : '';
+        console.log(`(${noModelNote}Add entries to a --pricing file to price these models.)`);
+    }
 
-                // Check other events for model info (just in case)
-                if (event.type === 'session.info') {
-                    sessionModel = event.data.selectedModel || event.data.selectedMode || event.data.model || sessionModel;
-                }
+    console.log('');
+    console.log(problems.length > 0 ? `Found ${problems.join(', ')}.` : 'No problems found.');
+}
 
-                // Input Tokens (estimate)
-                if (event.type === 'user.message') {
-                    const content = event.data.transformedContent || event.data.content || '';
-                    sessionInputTokensFromMessages += estimateTokensFromText(content);
-                }
+// Write the selected sessions (export) or the combined snapshots (merge) as one snapshot
+async function writeSnapshot() {
+    const analysis = await collectSessions();
+    const snapshot = createSnapshot(analysis);
+    const json = JSON.stringify(snapshot, null, 2);
 
-                // Input Tokens (if present in logs, treat as more authoritative than heuristics)
-                if (event.type === 'session.truncation') {
-                    sessionInputTokensFromTruncationSum += (event.data.postTruncationTokensInMessages || 0);
-                }
+    if (!outputFile) {
+        console.log(json);
+        return;
+    }
+    try {
+        fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+        fs.writeFileSync(outputFile, `${json}\n`);
+    } catch (e) {
+        console.error(`Failed to write snapshot ${outputFile}: ${(e as Error).message}`);
+        process.exit(1);
+    }
+    console.error(`Wrote ${snapshot.sessions.length} sessions to ${outputFile}`);
+}
 
-                // Output Tokens
-                if (event.type === 'assistant.message') {
-                    sessionOutputTokens += estimateTokensFromText(event.data.content || '');
-                }
+function formatDuration(ms: number): string {
+    if (ms < 1000) return `${Math.round(ms)}ms`;
+    const totalSeconds = ms / 1000;
+    if (totalSeconds < 60) return `${totalSeconds.toFixed(1)}s`;
+    const seconds = Math.round(totalSeconds) % 60;
+    const minutes = Math.floor(Math.round(totalSeconds) / 60) % 60;
+    const hours = Math.floor(Math.round(totalSeconds) / 3600);
+    return hours > 0
+        ? `${hours}h ${String(minutes).padStart(2, '0')}m`
+        : `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+}
 
-                // Some logs store assistant reasoning separately.
-                if (event.type === 'assistant.reasoning') {
-                    sessionOutputTokens += estimateTokensFromText(event.data.content || '');
-                }
+async function showTools() {
+    const analysis = await collectSessions();
+    const { totals, rows } = aggregateToolCalls(analysis, {
+        unit: timeUnit,
+        groupBy: toolGroupBy,
+        since,
+        until,
+        repos: repoFilter,
+        pricingTable
+    });
+
+    let sortedRows = sortToolRows(rows, toolGroupBy, rankByCost);
+    if (limit !== Infinity) {
+        sortedRows = sortedRows.slice(0, limit);
+    }
 
-            } catch (e) {
-                // Ignore parse errors
-            }
-        }
+    if (jsonOutput || outputFormat === 'json') {
+        const outputData = sortedRows.map(row => toJsonToolRow(toolGroupBy, row));
+        console.log(JSON.stringify(outputData, null, 2));
+        return;
+    }
 
-        const sessionInputTokens =
-            sessionInputTokensFromTruncationSum > 0
-                ? sessionInputTokensFromTruncationSum
-                : sessionInputTokensFromMessages;
-
-        if (sessionDateObj && !Number.isNaN(sessionDateObj.getTime())) {
-            const existingSession = sessionStateUsage.get(sessionId);
-            if (existingSession) {
-                existingSession.inputTokens += sessionInputTokens;
-                existingSession.outputTokens += sessionOutputTokens;
-                if (existingSession.model === 'default' && sessionModel !== 'default') {
-                    existingSession.model = sessionModel;
-                }
-                if (sessionDateObj < existingSession.date) {
-                    existingSession.date = sessionDateObj;
-                }
-            } else {
-                sessionStateUsage.set(sessionId, {
-                    date: sessionDateObj,
-                    inputTokens: sessionInputTokens,
-                    outputTokens: sessionOutputTokens,
-                    model: sessionModel
-                });
-            }
-        }
+    console.log(`\n=== GitHub Copilot Tool Calls ===`);
+    console.log(`Total Calls: ${totals.calls.toLocaleString('en-US')} (${totals.succeeded.toLocaleString('en-US')} succeeded, ${totals.failed.toLocaleString('en-US')} failed, ${totals.pending.toLocaleString('en-US')} without result)`);
+    console.log(`Total Duration: ${formatDuration(totals.durationMs)}`);
+    console.log(`Est. Result Tokens: ${totals.resultTokens.toLocaleString('en-US')} (fed back as input)`);
+    console.log(`Est. Input Cost of Results: $${totals.cost.toFixed(4)}`);
+
+    const breakdownLabel = toolGroupBy.map(dimension => dimension === 'time' ? timeUnit.toUpperCase() : dimension.toUpperCase()).join(' × ');
+    console.log(`\n=== Breakdown by ${breakdownLabel} ===`);
+
+    const colWidths = toolGroupBy.map((dimension, index) => Math.max(
+        TOOL_GROUP_DIMENSION_LABELS[dimension].header.length,
+        ...sortedRows.map(row => row.dimensions[index].length)
+    ));
+    const dimensionHeader = toolGroupBy.map((dimension, index) => TOOL_GROUP_DIMENSION_LABELS[dimension].header.padEnd(colWidths[index])).join(' | ');
+    const dimensionRule = colWidths.map(width => '-'.repeat(width)).join('-|-');
+
+    console.log(`${dimensionHeader} | Calls  | Succeeded | Failed | Total Time | Avg Time | Result Tokens | Est. Input Cost`);
+    console.log(`${dimensionRule}-|--------|-----------|--------|------------|----------|---------------|----------------`);
+    for (const { dimensions, stats } of sortedRows) {
+        const dimensionCells = dimensions.map((value, index) => value.padEnd(colWidths[index])).join(' | ');
+        const avgDuration = stats.timedCalls > 0 ? formatDuration(stats.durationMs / stats.timedCalls) : '-';
+        console.log(`${dimensionCells} | ${stats.calls.toString().padEnd(6)} | ${stats.succeeded.toString().padEnd(9)} | ${stats.failed.toString().padEnd(6)} | ${formatDuration(stats.durationMs).padEnd(10)} | ${avgDuration.padEnd(8)} | ${stats.resultTokens.toString().padEnd(13)} | $${stats.cost.toFixed(4)}`);
     }
+}
 
-    const sessionIdsFromState = new Set<string>();
-    for (const [sessionId, usage] of sessionStateUsage.entries()) {
-        const usageFromLogs = usageFromLogsBySession.get(sessionId);
-        if (usageFromLogs) {
-            addSessionUsage(
-                usage.date,
-                usageFromLogs.inputTokens,
-                usageFromLogs.outputTokens,
-                usageFromLogs.model || usage.model
-            );
-        } else {
-            addSessionUsage(
-                usage.date,
-                usage.inputTokens,
-                usage.outputTokens,
-                usage.model
-            );
+async function showForecast() {
+    const { sessions } = await collectSessions();
+    const forecast = buildForecast(sessions, { budget });
+
+    if (jsonOutput || outputFormat === 'json') {
+        console.log(JSON.stringify(toJsonForecast(forecast), null, 2));
+        return;
+    }
+
+    const monthDays = Math.round(forecast.daysElapsed + forecast.daysRemaining);
+    console.log(`\n=== GitHub Copilot Spend Forecast (${forecast.month}) ===`);
+    console.log(`Month to Date: $${forecast.monthToDate.toFixed(4)} (day ${forecast.daysElapsed.toFixed(1)} of ${monthDays})`);
+    if (!forecast.history) {
+        console.log('Not enough history: the forecast needs at least one complete day of logs before today.');
+    } else {
+        const { start, end, days } = forecast.history;
+        const slopeSign = forecast.trendSlope < 0 ? '-' : '+';
+        console.log(`History: ${start} to ${end} (${days} days, idle days count as $0)`);
+        console.log(`Average Burn Rate: $${forecast.averageDailyCost.toFixed(4)}/day`);
+        console.log(`Recent Burn Rate: $${forecast.recentDailyCost.toFixed(4)}/day (last ${Math.min(days, DEFAULT_RECENT_BURN_DAYS)} days)`);
+        console.log(`Trend: ${slopeSign}$${Math.abs(forecast.trendSlope).toFixed(4)}/day per day`);
+    }
+    const { low, expected, high } = forecast.projected;
+    console.log(`Projected Month-End: $${expected.toFixed(4)} (95% band: $${low.toFixed(4)} - $${high.toFixed(4)})`);
+
+    if (forecast.budgets.length > 0) {
+        console.log('\n=== Budgets ===');
+        for (const entry of forecast.budgets) {
+            const label = entry.scope === 'monthly' ? 'Monthly' : 'Total';
+            let exhausted = 'not exhausted at the recent rate';
+            if (entry.remaining === 0) {
+                exhausted = 'already exhausted';
+            } else if (entry.daysUntilExhausted !== null) {
+                exhausted = `exhausted in ${entry.daysUntilExhausted.toFixed(1)} days (${entry.exhaustedOn})`;
+            }
+            const projection = entry.projectedOver ? '; projected month-end exceeds the limit' : '';
+            console.log(`${label} budget $${entry.limit}: $${entry.spent.toFixed(4)} spent, $${entry.remaining.toFixed(4)} left, ${exhausted}${projection}`);
         }
-        sessionIdsFromState.add(sessionId);
     }
+}
 
-    for (const [sessionId, usageFromLogs] of usageFromLogsBySession.entries()) {
-        if (sessionIdsFromState.has(sessionId)) continue;
-        if (!usageFromLogs.timestamp) continue;
+async function showTopResponses(count: number) {
+    const records = collectResponses(await collectSessions(), pricingTable);
+    const stats = summarizeResponses(records);
+    const topRecords = rankResponses(records).slice(0, count);
 
-        addSessionUsage(
-            usageFromLogs.timestamp,
-            usageFromLogs.inputTokens,
-            usageFromLogs.outputTokens,
-            usageFromLogs.model
-        );
+    if (jsonOutput || outputFormat === 'json') {
+        console.log(JSON.stringify({ stats: toJsonResponseStats(stats), responses: topRecords.map(toJsonResponse) }, null, 2));
+        return;
     }
 
-    // Fill gaps if not ranking by cost (show all dates in range)
-    if (!rankByCost && Object.keys(aggStats).length > 0) {
-        const keys = Object.keys(aggStats).sort();
-        const minKey = keys[0];
-        const maxKey = keys[keys.length - 1];
-
-        // Helper to parse key to Date object (local time)
-        const parseKeyToDate = (key: string): Date => {
-            if (timeUnit === 'month') {
-                const [y, m] = key.split('-').map(Number);
-                return new Date(y, m - 1, 1);
-            }
-            if (timeUnit === 'hour') {
-                const [dStr, tStr] = key.split(' ');
-                const [y, m, d] = dStr.split('-').map(Number);
-                const h = parseInt(tStr.split(':')[0], 10);
-                return new Date(y, m - 1, d, h);
-            }
-            // day
-            const [y, m, d] = key.split('-').map(Number);
-            return new Date(y, m - 1, d);
-        };
+    console.log('\n=== GitHub Copilot Per-Response Usage ===');
+    console.log(`Responses: ${stats.responses.toLocaleString('en-US')} (usage-log sessions only)`);
+    if (records.length === 0) {
+        console.log('No usage log responses found.');
+        return;
+    }
+    const percentileRows: [string, PercentileStats, (value: number) => string][] = [
+        ['Input Tokens', stats.input, value => value.toLocaleString('en-US')],
+        ['Output Tokens', stats.output, value => value.toLocaleString('en-US')],
+        ['Total Tokens', stats.tokens, value => value.toLocaleString('en-US')],
+        ['Est. Cost', stats.cost, value => `$${value.toFixed(4)}`]
+    ];
+    console.log(`\n${'Per Response'.padEnd(13)} | ${'Median'.padEnd(10)} | ${'p95'.padEnd(10)} | Max`);
+    console.log(`${'-'.repeat(13)}-|-${'-'.repeat(10)}-|-${'-'.repeat(10)}-|-${'-'.repeat(10)}`);
+    for (const [label, percentiles, format] of percentileRows) {
+        console.log(`${label.padEnd(13)} | ${format(percentiles.median).padEnd(10)} | ${format(percentiles.p95).padEnd(10)} | ${format(percentiles.max)}`);
+    }
 
-        let currentKey = minKey;
-        let currentDate = parseKeyToDate(minKey);
-
-        while (currentKey < maxKey) {
-            // Increment
-            if (timeUnit === 'month') {
-                currentDate.setMonth(currentDate.getMonth() + 1);
-            } else if (timeUnit === 'hour') {
-                currentDate.setHours(currentDate.getHours() + 1);
-            } else {
-                currentDate.setDate(currentDate.getDate() + 1);
-            }
+    console.log(`\n=== Top ${topRecords.length} Most Expensive Responses ===`);
+    const modelColWidth = Math.max('Model'.length, ...topRecords.map(record => record.pricingKey.length));
+    console.log(`${'Time'.padEnd(16)} | ${'Session ID'.padEnd(36)} | ${'Model'.padEnd(modelColWidth)} | Input Tokens | Output Tokens | Est. Cost | Prompt`);
+    console.log(`${'-'.repeat(16)}-|-${'-'.repeat(36)}-|-${'-'.repeat(modelColWidth)}-|--------------|---------------|-----------|-${'-'.repeat(20)}`);
+    for (const record of topRecords) {
+        const time = record.timestamp ? formatDateTime(record.timestamp) : '-';
+        const prompt = record.prompt ? record.prompt.preview || '(empty)' : '-';
+        console.log(`${time.padEnd(16)} | ${record.sessionId.padEnd(36)} | ${record.pricingKey.padEnd(modelColWidth)} | ${record.inputTokens.toLocaleString('en-US').padEnd(12)} | ${record.outputTokens.toLocaleString('en-US').padEnd(13)} | ${`$${record.cost.toFixed(4)}`.padEnd(9)} | ${prompt}`);
+    }
+}
 
-            currentKey = getAggregationKey(currentDate, timeUnit);
+// Re-collect on file changes; unchanged files are cache hits and appended
+// files resume from their last safe offset, so each refresh reads only new bytes.
+// Resolves after the first analysis; Ctrl+C stops watching and exits.
+async function watchLogs(onAnalysis: (analysis: SessionAnalysis) => void, onError: (error: Error) => void = () => {}) {
+    let parseCache: ParseCache | null = null;
+    let running = false;
+    let pending = false;
+
+    const refresh = async () => {
+        if (running) {
+            pending = true;
+            return;
+        }
+        running = true;
+        try {
+            do {
+                pending = false;
+                updateDateWindow();
+                const analysis: SessionAnalysis = await collectSessions(parseCache);
+                parseCache = analysis.parseCache;
+                onAnalysis(analysis);
+            } while (pending);
+        } catch (e) {
+            // Keep watching; the next change or poll tries again
+            console.error((e as Error).message);
+            onError(e as Error);
+        } finally {
+            running = false;
+        }
+    };
 
-            // If we've gone past maxKey (should be caught by loop condition, but safe check)
-            if (currentKey > maxKey) break;
+    let debounceTimer: NodeJS.Timeout | null = null;
+    const scheduleRefresh = () => {
+        if (debounceTimer) clearTimeout(debounceTimer);
+        debounceTimer = setTimeout(() => {
+            debounceTimer = null;
+            void refresh();
+        }, WATCH_DEBOUNCE_MS);
+    };
 
-            if (!aggStats[currentKey]) {
-                aggStats[currentKey] = { sessions: 0, input: 0, output: 0, cost: 0 };
+    const watchers: fs.FSWatcher[] = [];
+    const watchedDirs = [
+        ...(!assistantFilter || assistantFilter.includes('copilot-cli') ? [...sessionDirs, ...logDirs] : []),
+        ...(!assistantFilter || assistantFilter.includes('gemini-cli') ? geminiDirs : []),
+        ...(!assistantFilter || assistantFilter.includes('vscode-copilot') ? vscodeDirs : [])
+    ];
+    for (const dir of watchedDirs) {
+        if (!fs.existsSync(dir)) continue;
+        try {
+            watchers.push(fs.watch(dir, { recursive: true }, (_eventType, fileName) => {
+                if (!fileName || /\.(jsonl?|log|ya?ml)$/i.test(fileName.toString())) {
+                    scheduleRefresh();
+                }
+            }));
+        } catch (e) {
+            // Polling below still picks up changes
+            if (verbose) {
+                console.error(`Cannot watch ${dir}: ${(e as Error).message}`);
             }
         }
     }
+    // Also redraws the clock and burn rate while nothing is written
+    const poller = setInterval(scheduleRefresh, WATCH_POLL_INTERVAL_MS);
 
-    let sortedKeys = Object.keys(aggStats);
-    if (rankByCost) {
-        sortedKeys.sort((a, b) => aggStats[b].cost - aggStats[a].cost);
-    } else {
-        sortedKeys.sort().reverse();
-    }
+    process.on('SIGINT', () => {
+        clearInterval(poller);
+        if (debounceTimer) clearTimeout(debounceTimer);
+        for (const watcher of watchers) watcher.close();
+        process.exit(0);
+    });
 
-    if (limit !== Infinity) {
-        sortedKeys = sortedKeys.slice(0, limit);
+    await refresh();
+}
+
+async function watchUsage() {
+    const samples: WatchSample[] = [];
+    await watchLogs(analysis => renderWatchView(analysis.sessions, samples));
+}
+
+// Serve the dashboard, JSON reports and /metrics, re-analyzing as the logs change
+async function serveUsage() {
+    let latest: { analysis: SessionAnalysis; refreshedAt: Date } | null = null;
+    // Reported by the server until the next analysis succeeds; the last good one is kept
+    let refreshError: string | null = null;
+    await watchLogs(analysis => {
+        latest = { analysis, refreshedAt: new Date() };
+        refreshError = null;
+    }, error => {
+        refreshError = error.message;
+    });
+
+    let server: http.Server;
+    try {
+        server = await startUsageServer({
+            host: serveHost,
+            port: servePort,
+            pricingTable,
+            unit: timeUnit,
+            groupBy,
+            filters: reportFilters,
+            budget,
+            billing,
+            getAnalysis: () => latest,
+            getRefreshError: () => refreshError
+        });
+    } catch (e) {
+        console.error(`Cannot listen on ${serveHost}:${servePort}: ${(e as Error).message}`);
+        process.exit(1);
     }
 
-    if (jsonOutput) {
-        const outputData = sortedKeys.map(key => ({
-            date: key,
-            sessions: aggStats[key].sessions,
-            input: aggStats[key].input,
-            output: aggStats[key].output,
-            cost: Number(aggStats[key].cost.toFixed(4))
-        }));
-        console.log(JSON.stringify(outputData, null, 2));
-        return;
+    const address = server.address();
+    const port = address && typeof address === 'object' ? address.port : servePort;
+    const baseUrl = `http://${serveHost.includes(':') ? `[${serveHost}]` : serveHost}:${port}`;
+    console.log(`Serving the usage dashboard at ${baseUrl}/ (Ctrl+C to stop)`);
+    console.log(`JSON reports: ${baseUrl}/api/usage, ${baseUrl}/api/sessions, ${baseUrl}/api/tools`);
+    console.log(`Prometheus metrics: ${baseUrl}/metrics`);
+}
+
+function renderWatchView(sessions: SessionRecord[], samples: WatchSample[]) {
+    const now = new Date();
+    const todayKey = getAggregationKey(now, 'day');
+    const currentKey = getAggregationKey(now, timeUnit);
+    const totals = createEmptyStats();
+    const today = createEmptyStats();
+    const current = createEmptyStats();
+
+    for (const session of sessions) {
+        addSessionToStats(totals, session);
+        if (getAggregationKey(session.date, 'day') === todayKey) {
+            addSessionToStats(today, session);
+        }
+        if (getAggregationKey(session.date, timeUnit) === currentKey) {
+            addSessionToStats(current, session);
+        }
     }
 
-    // Report
-    console.log('\n=== GitHub Copilot Usage Analysis (Dynamic Pricing) ===');
-    console.log(`Total Sessions: ${totalSessions}`);
-    console.log(`Total Input Tokens: ${totalInputTokens.toLocaleString()}`);
-    console.log(`Total Output Tokens: ${totalOutputTokens.toLocaleString()}`);
-    console.log(`Estimated Total Cost: $${totalCost.toFixed(4)}`);
-    console.log(`(Default Model: Claude Sonnet 4.5 @ $1.00/$3.00 per 1M tokens)`);
+    // Keep one sample at or before the window start as the burn rate baseline
+    samples.push({ time: now.getTime(), cost: totals.cost, tokens: totals.input + totals.output });
+    while (samples.length > 2 && samples[1].time <= now.getTime() - BURN_RATE_WINDOW_MS) {
+        samples.shift();
+    }
+    const baseline = samples[0];
+    const minutes = (now.getTime() - baseline.time) / 60000;
+    const costPerMinute = minutes > 0 ? (totals.cost - baseline.cost) / minutes : 0;
+    const tokensPerMinute = minutes > 0 ? (totals.input + totals.output - baseline.tokens) / minutes : 0;
+
+    const rows: [string, DailyStats][] = [];
+    if (timeUnit !== 'day') {
+        rows.push([`${timeUnit.charAt(0).toUpperCase()}${timeUnit.slice(1)} ${currentKey}`, current]);
+    }
+    rows.push([`Today ${todayKey}`, today], [since || until ? 'Selected range' : 'All time', totals]);
+    const labelWidth = Math.max(6, ...rows.map(([label]) => label.length));
 
-    console.log(`\n=== Breakdown by ${timeUnit.toUpperCase()} ===`);
-    let dateColWidth = 10;
-    if (timeUnit === 'month') dateColWidth = 7;
-    if (timeUnit === 'hour') dateColWidth = 16;
-    
-    console.log(`${'Date'.padEnd(dateColWidth)} | Sessions | Input Tokens | Output Tokens | Est. Cost`);
-    console.log(`${'-'.repeat(dateColWidth)}-|----------|--------------|---------------|----------`);
+    if (process.stdout.isTTY) {
+        // Clear the screen and move the cursor home so the view redraws in place
+        process.stdout.write('\x1b[2J\x1b[H');
+    } else {
+        console.log('');
+    }
+    console.log(`=== GitHub Copilot Usage (watching, Ctrl+C to stop) ===`);
+    console.log(`Updated: ${formatDateTime(now)}:${String(now.getSeconds()).padStart(2, '0')}`);
+    console.log('');
+    console.log(`${'Bucket'.padEnd(labelWidth)} | Sessions | Input Tokens | Output Tokens | Est. Cost`);
+    console.log(`${'-'.repeat(labelWidth)}-|----------|--------------|---------------|----------`);
+    for (const [label, stats] of rows) {
+        console.log(`${label.padEnd(labelWidth)} | ${stats.sessions.toString().padEnd(8)} | ${stats.input.toString().padEnd(12)} | ${stats.output.toString().padEnd(13)} | $${stats.cost.toFixed(4)}`);
+    }
+    console.log('');
+    const windowLabel = minutes * 60000 < BURN_RATE_WINDOW_MS ? 'since watch started' : `last ${BURN_RATE_WINDOW_MS / 60000} min`;
+    console.log(`Burn rate: $${costPerMinute.toFixed(4)}/min, ${Math.round(tokensPerMinute).toLocaleString('en-US')} tokens/min (${windowLabel})`);
+}
 
-    for (const key of sortedKeys) {
-        const stats = aggStats[key];
-        console.log(`${key.padEnd(dateColWidth)} | ${stats.sessions.toString().padEnd(8)} | ${stats.input.toString().padEnd(12)} | ${stats.output.toString().padEnd(13)} | $${stats.cost.toFixed(4)}`);
+if (verbose) {
+    const nameWidth = Math.max(...effectiveSettings.map(setting => setting.name.length));
+    console.log('Effective configuration:');
+    for (const setting of effectiveSettings) {
+        console.log(`  ${setting.name.padEnd(nameWidth)}  ${setting.value} (${setting.source})`);
     }
 }
 
-analyzeFiles().catch(console.error);
+// One-shot commands print what went wrong and fail
+function exitWithError(e: unknown) {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(1);
+}
+
+if (watchMode) {
+    watchUsage().catch(exitWithError);
+} else if (command === 'sessions') {
+    listSessions().catch(exitWithError);
+} else if (command === 'session') {
+    showSession(commandArgs[0]).catch(exitWithError);
+} else if (command === 'tools') {
+    showTools().catch(exitWithError);
+} else if (command === 'forecast') {
+    showForecast().catch(exitWithError);
+} else if (command === 'export' || command === 'merge') {
+    writeSnapshot().catch(exitWithError);
+} else if (command === 'serve') {
+    serveUsage().catch(exitWithError);
+} else if (command === 'doctor') {
+    showDoctor().catch(exitWithError);
+} else if (topResponses !== null) {
+    showTopResponses(topResponses).catch(exitWithError);
+} else {
+    analyzeFiles().catch(exitWithError);
+}
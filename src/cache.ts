@@ -0,0 +1,73 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { ParseCache, ParseCacheEntry, ParseCacheStats, ParsedFile, TokenizerMode } from './types.js';
+import { isRecord } from './util.js';
+
+export const DEFAULT_PARSE_CACHE_FILE = path.join(process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'), 'cpusage', 'parse-cache.json');
+// Bump when the cached per-file state changes shape or meaning
+export const PARSE_CACHE_VERSION = 4;
+
+export function createEmptyParseCache(tokenizer: TokenizerMode = 'heuristic'): ParseCache {
+    return { version: PARSE_CACHE_VERSION, tokenizer, sessionFiles: {}, usageLogFiles: {} };
+}
+
+// A cache written with another tokenizer is discarded
+export function loadParseCache(cacheFile: string = DEFAULT_PARSE_CACHE_FILE, tokenizer: TokenizerMode = 'heuristic'): ParseCache {
+    try {
+        const parsed = JSON.parse(fs.readFileSync(cacheFile, 'utf8')) as ParseCache;
+        if (parsed.version === PARSE_CACHE_VERSION && parsed.tokenizer === tokenizer && isRecord(parsed.sessionFiles) && isRecord(parsed.usageLogFiles)) {
+            return parsed;
+        }
+    } catch {
+        // Missing or unreadable cache: start over
+    }
+    return createEmptyParseCache(tokenizer);
+}
+
+// Write atomically so a concurrent run never reads a half-written file
+export function saveParseCache(cache: ParseCache, cacheFile: string = DEFAULT_PARSE_CACHE_FILE) {
+    fs.mkdirSync(path.dirname(cacheFile), { recursive: true });
+    const tempFile = `${cacheFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(cache));
+    fs.renameSync(tempFile, cacheFile);
+}
+
+// Parse a file, reusing the previous cache entry when the file is unchanged (hit)
+// or has only grown (resumed from the cached offset). The new entry is stored in `next`.
+export async function parseWithCache<T>(
+    filePath: string,
+    previous: Record<string, ParseCacheEntry<T>>,
+    next: Record<string, ParseCacheEntry<T>>,
+    stats: ParseCacheStats,
+    parse: (filePath: string, stat: fs.Stats, resumeFrom: ParseCacheEntry<T> | null) => Promise<ParsedFile<T>>
+): Promise<T | null> {
+    let stat: fs.Stats;
+    try {
+        stat = fs.statSync(filePath);
+    } catch {
+        return null;
+    }
+
+    const cached = previous[filePath];
+    const unchanged = cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs;
+    const grown = cached && stat.size > cached.size && cached.offset <= stat.size;
+
+    if (unchanged && cached.offset === stat.size) {
+        stats.hits++;
+        next[filePath] = cached;
+        return cached.state;
+    }
+
+    if (unchanged) {
+        stats.hits++;
+    } else if (grown) {
+        stats.resumed++;
+    } else {
+        stats.misses++;
+    }
+
+    const parsed = await parse(filePath, stat, unchanged || grown ? cached : null);
+    next[filePath] = parsed.entry;
+    return parsed.result;
+}
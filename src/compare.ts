@@ -0,0 +1,167 @@
+import type { ComparisonRow, ComparisonWindow, DailyStats, ModelComparisonRow, PeriodComparison, SessionRecord, TimeUnit } from './types.js';
+import { aggregate, filterSessions } from './analyze.js';
+import { getAggregationKey, getNextAggregationKey, parseDateRange } from './dates.js';
+import { createEmptyStats } from './tokens.js';
+
+// Move a date by whole buckets, keeping the time of day. Month steps clamp to the
+// last day of a shorter month, so Mar 31 minus a month is Feb 28 (or 29).
+function shiftByBuckets(date: Date, unit: TimeUnit, count: number): Date {
+    const shifted = new Date(date);
+    const shiftMonths = (months: number) => {
+        const day = shifted.getDate();
+        shifted.setMonth(shifted.getMonth() + months);
+        if (shifted.getDate() !== day) shifted.setDate(0);
+    };
+    switch (unit) {
+        case 'hour':
+            shifted.setHours(shifted.getHours() + count);
+            break;
+        case 'week':
+            shifted.setDate(shifted.getDate() + count * 7);
+            break;
+        case 'month':
+            shiftMonths(count);
+            break;
+        case 'quarter':
+            shiftMonths(count * 3);
+            break;
+        case 'year':
+            shiftMonths(count * 12);
+            break;
+        default:
+            shifted.setDate(shifted.getDate() + count);
+    }
+    return shifted;
+}
+
+// Bucket keys a window touches, in order
+function getWindowKeys(window: ComparisonWindow, unit: TimeUnit): string[] {
+    const keys: string[] = [];
+    const lastKey = getAggregationKey(new Date(window.until.getTime() - 1), unit);
+    for (let key = getAggregationKey(window.since, unit); key <= lastKey; key = getNextAggregationKey(key, unit)) {
+        keys.push(key);
+    }
+    return keys;
+}
+
+// Baseline window of a --compare value. 'previous' is the window just before the current one,
+// moved back by as many buckets as the current window touches, so this month to date compares
+// with last month up to the same day and time. A date range starts a window of the same length.
+export function resolveComparisonWindow(value: string, current: ComparisonWindow, unit: TimeUnit): ComparisonWindow {
+    let baseline: ComparisonWindow;
+    if (value.trim().toLowerCase() === 'previous') {
+        const buckets = getWindowKeys(current, unit).length;
+        baseline = { since: shiftByBuckets(current.since, unit, -buckets), until: shiftByBuckets(current.until, unit, -buckets) };
+    } else {
+        const range = parseDateRange(value);
+        if (!range) {
+            throw new Error(`Invalid compare: ${value}. Use previous, YYYY-MM-DD, an ISO timestamp, <n>h/<n>d/<n>w, today, yesterday, this-month or last-month.`);
+        }
+        baseline = { since: range.start, until: new Date(range.start.getTime() + current.until.getTime() - current.since.getTime()) };
+    }
+
+    if (baseline.since < current.until && baseline.until > current.since) {
+        throw new Error(`Invalid compare: ${value}. The comparison window overlaps the current window.`);
+    }
+    return baseline;
+}
+
+// Time buckets of the sessions in a window, gap-filled to the window bounds
+function getWindowBuckets(sessions: SessionRecord[], window: ComparisonWindow, unit: TimeUnit): { key: string; stats: DailyStats }[] {
+    const { rows } = aggregate(filterSessions(sessions, window), {
+        unit,
+        groupBy: ['time'],
+        fillGaps: true,
+        since: window.since,
+        until: window.until
+    });
+    return rows
+        .map(row => ({ key: row.dimensions[0], stats: row.stats }))
+        .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// Compare the sessions of two windows bucket by bucket and model by model. Both windows are
+// bucketed like the usage report and paired by position, e.g. this Monday with last Monday.
+export function buildComparison(sessions: SessionRecord[], current: ComparisonWindow, baseline: ComparisonWindow, unit: TimeUnit): PeriodComparison {
+    const currentSessions = filterSessions(sessions, current);
+    const baselineSessions = filterSessions(sessions, baseline);
+
+    const currentBuckets = getWindowBuckets(currentSessions, current, unit);
+    const baselineBuckets = getWindowBuckets(baselineSessions, baseline, unit);
+    const rows: ComparisonRow[] = [];
+    for (let index = 0; index < Math.max(currentBuckets.length, baselineBuckets.length); index++) {
+        const currentBucket = currentBuckets[index];
+        const baselineBucket = baselineBuckets[index];
+        rows.push({
+            period: currentBucket ? currentBucket.key : null,
+            baselinePeriod: baselineBucket ? baselineBucket.key : null,
+            current: currentBucket ? currentBucket.stats : createEmptyStats(),
+            baseline: baselineBucket ? baselineBucket.stats : createEmptyStats()
+        });
+    }
+    // Newest bucket first, like the usage report
+    rows.reverse();
+
+    const currentByModel = aggregate(currentSessions, { groupBy: ['model'] });
+    const baselineByModel = aggregate(baselineSessions, { groupBy: ['model'] });
+    const modelStats = new Map<string, ModelComparisonRow>();
+    const getModelRow = (model: string) => {
+        let row = modelStats.get(model);
+        if (!row) {
+            row = { model, current: createEmptyStats(), baseline: createEmptyStats() };
+            modelStats.set(model, row);
+        }
+        return row;
+    };
+    for (const row of currentByModel.rows) getModelRow(row.dimensions[0]).current = row.stats;
+    for (const row of baselineByModel.rows) getModelRow(row.dimensions[0]).baseline = row.stats;
+    const models = [...modelStats.values()].sort((a, b) =>
+        Math.abs(b.current.cost - b.baseline.cost) - Math.abs(a.current.cost - a.baseline.cost) || a.model.localeCompare(b.model)
+    );
+
+    return {
+        unit,
+        current,
+        baseline,
+        totals: { current: currentByModel.totals, baseline: baselineByModel.totals },
+        rows,
+        models
+    };
+}
+
+// Current and baseline value of a stat and the change; deltaPercent is null without a baseline
+function toJsonChange(current: number, baseline: number, decimals = 0) {
+    const round = (value: number) => Number(value.toFixed(decimals));
+    return {
+        current: round(current),
+        baseline: round(baseline),
+        delta: round(current - baseline),
+        deltaPercent: baseline > 0 ? Number(((current - baseline) / baseline * 100).toFixed(2)) : null
+    };
+}
+
+function toJsonChanges(current: DailyStats, baseline: DailyStats) {
+    return {
+        sessions: toJsonChange(current.sessions, baseline.sessions),
+        input: toJsonChange(current.input, baseline.input),
+        output: toJsonChange(current.output, baseline.output),
+        cost: toJsonChange(current.cost, baseline.cost, 4)
+    };
+}
+
+// `comparison` object of the `--format json` envelope
+export function toJsonComparison(comparison: PeriodComparison) {
+    const toJsonWindow = (window: ComparisonWindow) => ({ since: window.since.toISOString(), until: window.until.toISOString() });
+    return {
+        unit: comparison.unit,
+        current: toJsonWindow(comparison.current),
+        baseline: toJsonWindow(comparison.baseline),
+        totals: toJsonChanges(comparison.totals.current, comparison.totals.baseline),
+        rows: comparison.rows.map(row => ({
+            period: row.period,
+            baselinePeriod: row.baselinePeriod,
+            ...toJsonChanges(row.current, row.baseline)
+        })),
+        models: comparison.models.map(row => ({ model: row.model, ...toJsonChanges(row.current, row.baseline) }))
+    };
+}
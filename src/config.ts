@@ -0,0 +1,116 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { BillingMode, CpusageConfig, OutputFormat, TimeUnit, TokenizerMode } from './types.js';
+import { isValidTimeZone, TIME_UNITS } from './dates.js';
+import { TOKENIZER_MODES } from './tokenizer.js';
+import { isRecord } from './util.js';
+
+// Config files looked up in order; the first one found is used
+export const CONFIG_FILE_LOCATIONS = [
+    path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'cpusage', 'config.json'),
+    path.join(os.homedir(), '.copilot', 'cpusage-config.json')
+];
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'csv', 'markdown', 'html'];
+export const BILLING_MODES: BillingMode[] = ['tokens', 'premium', 'both'];
+
+// Expand a leading ~ and resolve relative paths against the config file's directory
+function resolveConfigPath(value: string, filePath: string): string {
+    const expanded = value === '~' || value.startsWith('~/') ? path.join(os.homedir(), value.slice(1)) : value;
+    return path.resolve(path.dirname(filePath), expanded);
+}
+
+// Read the cpusage config file:
+// { "sessionDirs"?, "logDirs"?, "geminiDirs"?, "vscodeDirs"?, "unit"?, "pricing"?, "timezone"?, "tokenizer"?, "label"?, "format"?,
+//   "budget"?: { "daily"?, "monthly"?, "total"?, "warnRatio"? },
+//   "billing"?: { "mode"?, "allowance"?, "overagePrice"? } }
+export function loadConfigFile(filePath: string | null = null): CpusageConfig {
+    const loaded: CpusageConfig = { budget: {}, billing: {} };
+    if (!filePath) return loaded;
+
+    const fail = (message: string): never => {
+        throw new Error(`Invalid config file ${filePath}: ${message}`);
+    };
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e) {
+        return fail((e as Error).message);
+    }
+
+    if (!isRecord(parsed) || Array.isArray(parsed)) fail('expected a JSON object at the top level');
+    const root = parsed as Record<string, unknown>;
+
+    for (const [field, value] of Object.entries(root)) {
+        if (field === 'budget' || field === 'billing' || value === null) continue;
+        if (field === 'sessionDirs' || field === 'logDirs' || field === 'geminiDirs' || field === 'vscodeDirs') {
+            // A single path or a list of paths
+            const dirs = typeof value === 'string' ? [value] : value;
+            if (!Array.isArray(dirs) || dirs.some(dir => typeof dir !== 'string' || !dir.trim())) {
+                fail(`${field} must be a path or an array of paths`);
+            }
+            loaded[field] = (dirs as string[]).map(dir => resolveConfigPath(dir.trim(), filePath));
+        } else if (field === 'unit') {
+            if (!TIME_UNITS.includes(value as TimeUnit)) fail(`unit must be one of ${TIME_UNITS.join(', ')}`);
+            loaded.unit = value as TimeUnit;
+        } else if (field === 'pricing') {
+            if (typeof value !== 'string' || !value.trim()) fail('pricing must be a path to a JSON pricing file');
+            loaded.pricing = resolveConfigPath((value as string).trim(), filePath);
+        } else if (field === 'timezone') {
+            if (typeof value !== 'string' || !isValidTimeZone(value)) fail('timezone must be an IANA time zone name such as "Asia/Taipei"');
+            loaded.timezone = value as string;
+        } else if (field === 'tokenizer') {
+            if (!TOKENIZER_MODES.includes(value as TokenizerMode)) fail(`tokenizer must be one of ${TOKENIZER_MODES.join(', ')}`);
+            loaded.tokenizer = value as TokenizerMode;
+        } else if (field === 'label') {
+            if (typeof value !== 'string' || !value.trim()) fail('label must be a non-empty string');
+            loaded.label = (value as string).trim();
+        } else if (field === 'format') {
+            const format = value === 'md' ? 'markdown' : value;
+            if (!OUTPUT_FORMATS.includes(format as OutputFormat)) fail(`format must be one of ${OUTPUT_FORMATS.join(', ')}`);
+            loaded.format = format as OutputFormat;
+        } else {
+            fail(`unknown field "${field}"`);
+        }
+    }
+
+    if (root.budget !== undefined) {
+        if (!isRecord(root.budget) || Array.isArray(root.budget)) fail('"budget" must be an object');
+        const budgetConfig = root.budget as Record<string, unknown>;
+        for (const [field, value] of Object.entries(budgetConfig)) {
+            if (field === 'daily' || field === 'monthly' || field === 'total') {
+                if (value === null) continue;
+                if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) fail(`budget.${field} must be a non-negative number (USD)`);
+                loaded.budget[field] = value as number;
+            } else if (field === 'warnRatio') {
+                if (value === null) continue;
+                if (typeof value !== 'number' || !(value > 0 && value <= 1)) fail('budget.warnRatio must be a number in (0, 1]');
+                loaded.budget.warnRatio = value as number;
+            } else {
+                fail(`budget has unknown field "${field}"`);
+            }
+        }
+    }
+
+    if (root.billing !== undefined) {
+        if (!isRecord(root.billing) || Array.isArray(root.billing)) fail('"billing" must be an object');
+        for (const [field, value] of Object.entries(root.billing as Record<string, unknown>)) {
+            if (value === null) continue;
+            if (field === 'mode') {
+                if (!BILLING_MODES.includes(value as BillingMode)) fail(`billing.mode must be one of ${BILLING_MODES.join(', ')}`);
+                loaded.billing.mode = value as BillingMode;
+            } else if (field === 'allowance' || field === 'overagePrice') {
+                if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+                    fail(`billing.${field} must be a non-negative number (${field === 'allowance' ? 'premium requests per month' : 'USD per premium request'})`);
+                }
+                loaded.billing[field] = value as number;
+            } else {
+                fail(`billing has unknown field "${field}"`);
+            }
+        }
+    }
+
+    return loaded;
+}
@@ -0,0 +1,174 @@
+import type { TimeUnit } from './types.js';
+
+export const TIME_UNITS: TimeUnit[] = ['day', 'week', 'month', 'quarter', 'year', 'hour'];
+
+// Parse a --since/--until value into a local-time range [start, end).
+// Relative forms count back from now: '7d' covers today and the 6 days before.
+export function parseDateRange(value: string): { start: Date; end: Date } | null {
+    const input = value.trim().toLowerCase();
+    const now = new Date();
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    if (input === 'today') {
+        return { start: startOfToday, end: new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1) };
+    }
+    if (input === 'yesterday') {
+        return { start: new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1), end: startOfToday };
+    }
+    if (input === 'this-month') {
+        return { start: new Date(now.getFullYear(), now.getMonth(), 1), end: new Date(now.getFullYear(), now.getMonth() + 1, 1) };
+    }
+    if (input === 'last-month') {
+        return { start: new Date(now.getFullYear(), now.getMonth() - 1, 1), end: new Date(now.getFullYear(), now.getMonth(), 1) };
+    }
+
+    const relativeMatch = input.match(/^(\d+)([hdw])$/);
+    if (relativeMatch) {
+        const amount = parseInt(relativeMatch[1], 10);
+        if (amount < 1) return null;
+        if (relativeMatch[2] === 'h') {
+            return { start: new Date(now.getTime() - amount * 3_600_000), end: now };
+        }
+        const days = relativeMatch[2] === 'w' ? amount * 7 : amount;
+        return { start: new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1)), end: now };
+    }
+
+    // Plain dates cover the whole local day
+    const dateMatch = input.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (dateMatch) {
+        const [y, m, d] = dateMatch.slice(1).map(Number);
+        const start = new Date(y, m - 1, d);
+        if (start.getMonth() !== m - 1 || start.getDate() !== d) return null;
+        return { start, end: new Date(y, m - 1, d + 1) };
+    }
+
+    if (/^\d{4}-\d{2}-\d{2}t/.test(input)) {
+        const timestamp = new Date(value.trim());
+        if (Number.isNaN(timestamp.getTime())) return null;
+        return { start: timestamp, end: new Date(timestamp.getTime() + 1) };
+    }
+
+    return null;
+}
+
+// Half-open window [since, until); a null bound is unbounded
+export function isWithinDateRange(date: Date, since: Date | null | undefined, until: Date | null | undefined): boolean {
+    if (since && date < since) return false;
+    if (until && date >= until) return false;
+    return true;
+}
+
+export function formatDateTime(date: Date): string {
+    const hh = String(date.getHours()).padStart(2, '0');
+    const min = String(date.getMinutes()).padStart(2, '0');
+    return `${getAggregationKey(date, 'day')} ${hh}:${min}`;
+}
+
+// Calendar fields of a bucket; month is 1-12
+interface CalendarParts {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+}
+
+// Check that a time zone name is known to the runtime
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// ISO 8601 week-numbering year and week; weeks start on Monday and week 1 holds the first Thursday
+function getIsoWeek(parts: CalendarParts): { year: number; week: number } {
+    const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+    const weekday = date.getUTCDay() || 7;
+    date.setUTCDate(date.getUTCDate() + 4 - weekday);
+    const year = date.getUTCFullYear();
+    const week = Math.ceil(((date.getTime() - Date.UTC(year, 0, 1)) / 86_400_000 + 1) / 7);
+    return { year, week };
+}
+
+function formatAggregationKey(parts: CalendarParts, unit: TimeUnit): string {
+    const yyyy = String(parts.year);
+    const mm = String(parts.month).padStart(2, '0');
+    const dd = String(parts.day).padStart(2, '0');
+    const hh = String(parts.hour).padStart(2, '0');
+
+    switch (unit) {
+        case 'hour':
+            return `${yyyy}-${mm}-${dd} ${hh}:00`;
+        case 'week': {
+            const { year, week } = getIsoWeek(parts);
+            return `${year}-W${String(week).padStart(2, '0')}`;
+        }
+        case 'month':
+            return `${yyyy}-${mm}`;
+        case 'quarter':
+            return `${yyyy}-Q${Math.floor((parts.month - 1) / 3) + 1}`;
+        case 'year':
+            return yyyy;
+        default:
+            return `${yyyy}-${mm}-${dd}`;
+    }
+}
+
+// Bucket key in local time (set TZ to report in another zone).
+// Keys of one unit sort chronologically as strings.
+export function getAggregationKey(date: Date, unit: TimeUnit): string {
+    return formatAggregationKey({
+        year: date.getFullYear(),
+        month: date.getMonth() + 1,
+        day: date.getDate(),
+        hour: date.getHours()
+    }, unit);
+}
+
+// Key of the period following `key`. Stepping uses UTC calendar arithmetic, so DST
+// changes never repeat or skip a bucket; local hours skipped by a DST change are left out.
+export function getNextAggregationKey(key: string, unit: TimeUnit): string {
+    const [y, m, d, h] = key.match(/\d+/g)!.map(Number);
+    let next: Date;
+
+    switch (unit) {
+        case 'hour':
+            next = new Date(Date.UTC(y, m - 1, d, h + 1));
+            break;
+        case 'week': {
+            // Monday of ISO week 1 is the Monday on or before January 4
+            const jan4 = new Date(Date.UTC(y, 0, 4));
+            next = new Date(Date.UTC(y, 0, 4 - ((jan4.getUTCDay() || 7) - 1) + m * 7));
+            break;
+        }
+        case 'month':
+            next = new Date(Date.UTC(y, m, 1));
+            break;
+        case 'quarter':
+            next = new Date(Date.UTC(y, m * 3, 1));
+            break;
+        case 'year':
+            next = new Date(Date.UTC(y + 1, 0, 1));
+            break;
+        default:
+            next = new Date(Date.UTC(y, m - 1, d + 1));
+    }
+
+    const parts: CalendarParts = {
+        year: next.getUTCFullYear(),
+        month: next.getUTCMonth() + 1,
+        day: next.getUTCDate(),
+        hour: next.getUTCHours()
+    };
+    const nextKey = formatAggregationKey(parts, unit);
+
+    if (unit === 'hour') {
+        const local = new Date(parts.year, parts.month - 1, parts.day, parts.hour);
+        if (local.getHours() !== parts.hour) {
+            return getNextAggregationKey(nextKey, unit);
+        }
+    }
+    return nextKey;
+}
@@ -0,0 +1,255 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { DiscoveredLogs, DiscoverOptions, LogRoot, SessionContext } from './types.js';
+
+export const DEFAULT_SESSION_DIR = path.join(os.homedir(), '.copilot', 'session-state');
+export const DEFAULT_LOG_DIR = path.join(os.homedir(), '.copilot', 'logs');
+// Gemini CLI keeps each project's chats under tmp/<project hash>/chats
+export const DEFAULT_GEMINI_DIR = path.join(os.homedir(), '.gemini', 'tmp');
+// Copilot Chat keeps each workspace's chats under workspaceStorage/<workspace hash>/chatSessions
+export const DEFAULT_VSCODE_DIR = path.join(getVscodeUserDir(), 'workspaceStorage');
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+export const UUID_LOG_FILE_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.log$/i;
+const PROCESS_LOG_FILE_PATTERN = /^process-.*\.log$/i;
+const GEMINI_CHAT_FILE_PATTERN = /^session-.*\.json$/i;
+
+interface SessionLogFiles {
+    logFiles: string[];
+    // workspace.yaml files keyed by session ID
+    workspaceFiles: Map<string, string>;
+}
+
+// Directories listed in an environment variable, separated by the platform path delimiter
+export function readDirsFromEnv(name: string): string[] | null {
+    const dirs = (process.env[name] || '').split(path.delimiter).map(dir => dir.trim()).filter(Boolean);
+    return dirs.length > 0 ? dirs : null;
+}
+
+function getFileSize(filePath: string): number {
+    try {
+        return fs.statSync(filePath).size;
+    } catch {
+        return 0;
+    }
+}
+
+// The User directory of the VS Code user data on this platform
+function getVscodeUserDir(): string {
+    if (process.platform === 'win32') {
+        return path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming'), 'Code', 'User');
+    }
+    if (process.platform === 'darwin') {
+        return path.join(os.homedir(), 'Library', 'Application Support', 'Code', 'User');
+    }
+    return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'Code', 'User');
+}
+
+// Roots given in the options, else in the environment variable, else the default directory.
+// Resolved and de-duplicated so a directory given twice is only read once.
+export function resolveLogRoots(dirs: string[] | undefined, envName: string, defaultDir: string): LogRoot[] {
+    const paths = [...new Set((dirs?.length ? dirs : (readDirsFromEnv(envName) || [defaultDir])).map(dir => path.resolve(dir)))];
+    return paths.map(dirPath => ({ path: dirPath, exists: fs.existsSync(dirPath) }));
+}
+
+// Find the session-state logs, workspace metadata and usage logs to analyze.
+// Missing directories yield no files; check `exists` on each root.
+export function discoverLogs(options: DiscoverOptions = {}): DiscoveredLogs {
+    const sessionDirs = resolveLogRoots(options.sessionDirs, 'SESSION_DIR', DEFAULT_SESSION_DIR);
+    const logDirs = resolveLogRoots(options.logDirs, 'LOG_DIR', DEFAULT_LOG_DIR);
+    // Session logs keyed by their path inside the root; overlapping copies keep the largest file
+    const sessionFilesByRelativePath = new Map<string, { filePath: string; size: number }>();
+    const workspaceFiles = new Map<string, string>();
+    const usageLogFiles: string[] = [];
+
+    for (const root of sessionDirs) {
+        if (!root.exists) continue;
+        const found = findSessionLogFiles(root.path);
+        for (const filePath of found.logFiles) {
+            const relativePath = path.relative(root.path, filePath);
+            const size = getFileSize(filePath);
+            const existing = sessionFilesByRelativePath.get(relativePath);
+            if (!existing || size > existing.size) {
+                sessionFilesByRelativePath.set(relativePath, { filePath, size });
+            }
+        }
+        for (const [sessionId, workspaceFile] of found.workspaceFiles) {
+            if (!workspaceFiles.has(sessionId)) {
+                workspaceFiles.set(sessionId, workspaceFile);
+            }
+        }
+    }
+    for (const root of logDirs) {
+        if (root.exists) {
+            usageLogFiles.push(...findCopilotUsageLogFiles(root.path));
+        }
+    }
+
+    return {
+        sessionDirs,
+        logDirs,
+        sessionFiles: [...sessionFilesByRelativePath.values()].map(file => file.filePath),
+        workspaceFiles,
+        usageLogFiles
+    };
+}
+
+export function inferSessionIdFromSessionFile(filePath: string): string {
+    const fileName = path.basename(filePath);
+    if (fileName === 'events.jsonl') {
+        return path.basename(path.dirname(filePath));
+    }
+
+    return fileName.replace(/\.jsonl$/i, '');
+}
+
+export function findSessionLogFiles(sessionDir: string): SessionLogFiles {
+    const eventsJsonl: string[] = [];
+    const topLevelJsonl: string[] = [];
+    const workspaceFiles = new Map<string, string>();
+    const stack: string[] = [sessionDir];
+
+    while (stack.length > 0) {
+        const currentDir = stack.pop() as string;
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(currentDir, { withFileTypes: true });
+        } catch {
+            continue;
+        }
+
+        for (const entry of entries) {
+            const fullPath = path.join(currentDir, entry.name);
+
+            if (entry.isDirectory()) {
+                stack.push(fullPath);
+                continue;
+            }
+
+            if (!entry.isFile()) continue;
+
+            if (entry.name === 'events.jsonl') {
+                eventsJsonl.push(fullPath);
+                continue;
+            }
+
+            // Session directories may carry workspace metadata even without events.jsonl
+            if (entry.name === 'workspace.yaml') {
+                workspaceFiles.set(path.basename(currentDir), fullPath);
+                continue;
+            }
+
+            // Treat any other .jsonl file as a standalone session log, regardless of directory depth
+            if (entry.name.endsWith('.jsonl')) {
+                topLevelJsonl.push(fullPath);
+            }
+        }
+    }
+
+    return {
+        logFiles: [...topLevelJsonl, ...eventsJsonl],
+        workspaceFiles
+    };
+}
+
+// Minimal reader for the flat `key: value` layout of workspace.yaml
+export function readWorkspaceFile(filePath: string): SessionContext {
+    let content: string;
+    try {
+        content = fs.readFileSync(filePath, 'utf8');
+    } catch {
+        return {};
+    }
+
+    const fields: Record<string, string> = {};
+    for (const line of content.split(/\r?\n/)) {
+        const match = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/);
+        if (!match) continue;
+
+        let value = match[2].trim();
+        if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+            value = value.slice(1, -1);
+        }
+        if (value && value !== '~' && value !== 'null') {
+            fields[match[1]] = value;
+        }
+    }
+
+    return {
+        repository: fields.repository,
+        branch: fields.branch,
+        cwd: fields.cwd
+    };
+}
+
+export function findCopilotUsageLogFiles(logDir: string): string[] {
+    if (!fs.existsSync(logDir)) {
+        return [];
+    }
+
+    let entries: fs.Dirent[];
+    try {
+        entries = fs.readdirSync(logDir, { withFileTypes: true });
+    } catch {
+        return [];
+    }
+
+    const processLogs: string[] = [];
+    const uuidLogs: string[] = [];
+
+    for (const entry of entries) {
+        if (!entry.isFile()) continue;
+
+        if (PROCESS_LOG_FILE_PATTERN.test(entry.name)) {
+            processLogs.push(path.join(logDir, entry.name));
+            continue;
+        }
+
+        if (UUID_LOG_FILE_PATTERN.test(entry.name)) {
+            uuidLogs.push(path.join(logDir, entry.name));
+        }
+    }
+
+    processLogs.sort();
+    uuidLogs.sort();
+
+    return [...processLogs, ...uuidLogs];
+}
+
+// JSON files under the root whose parent directory and name match, at any depth
+function findJsonFiles(root: string, isMatch: (dirName: string, fileName: string) => boolean): string[] {
+    const files: string[] = [];
+    const stack: string[] = [root];
+
+    while (stack.length > 0) {
+        const currentDir = stack.pop() as string;
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(currentDir, { withFileTypes: true });
+        } catch {
+            continue;
+        }
+
+        for (const entry of entries) {
+            const fullPath = path.join(currentDir, entry.name);
+            if (entry.isDirectory()) {
+                stack.push(fullPath);
+            } else if (entry.isFile() && isMatch(path.basename(currentDir), entry.name)) {
+                files.push(fullPath);
+            }
+        }
+    }
+
+    return files.sort();
+}
+
+// Gemini CLI chat files: <project hash>/chats/session-*.json
+export function findGeminiChatFiles(geminiDir: string): string[] {
+    return findJsonFiles(geminiDir, (dirName, fileName) => dirName === 'chats' && GEMINI_CHAT_FILE_PATTERN.test(fileName));
+}
+
+// VS Code Copilot Chat sessions: <workspace hash>/chatSessions/*.json
+export function findVscodeChatSessionFiles(vscodeDir: string): string[] {
+    return findJsonFiles(vscodeDir, (dirName, fileName) => dirName === 'chatSessions' && fileName.endsWith('.json'));
+}
@@ -0,0 +1,164 @@
+import type { ForecastBudget, ForecastOptions, SessionRecord, UsageForecast } from './types.js';
+import { aggregate, filterSessions } from './analyze.js';
+import { getAggregationKey } from './dates.js';
+
+const DAY_MS = 86_400_000;
+// Two-sided 95% quantile of the normal distribution
+const BAND_Z = 1.96;
+
+export const DEFAULT_FORECAST_LOOKBACK_DAYS = 28;
+export const DEFAULT_RECENT_BURN_DAYS = 7;
+
+function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// Least-squares line through (day index, cost) and the spread of the days around it
+function fitTrend(values: number[]): { intercept: number; slope: number; residualSd: number } {
+    const n = values.length;
+    if (n < 2) return { intercept: values[0] ?? 0, slope: 0, residualSd: 0 };
+
+    const xMean = (n - 1) / 2;
+    const yMean = mean(values);
+    let sxy = 0;
+    let sxx = 0;
+    values.forEach((y, x) => {
+        sxy += (x - xMean) * (y - yMean);
+        sxx += (x - xMean) ** 2;
+    });
+    const slope = sxy / sxx;
+    const intercept = yMean - slope * xMean;
+
+    // A line through two points fits exactly, so fall back to their standard deviation
+    if (n === 2) return { intercept, slope, residualSd: Math.abs(values[1] - values[0]) / Math.SQRT2 };
+    const squaredResiduals = values.reduce((sum, y, x) => sum + (y - intercept - slope * x) ** 2, 0);
+    return { intercept, slope, residualSd: Math.sqrt(squaredResiduals / (n - 2)) };
+}
+
+// Project the current month's cost from the daily costs of the complete days before today.
+// Days without sessions count as zero, so idle days lower the rates.
+export function buildForecast(sessions: SessionRecord[], options: ForecastOptions = {}): UsageForecast {
+    const now = options.now || new Date();
+    const lookbackDays = options.lookbackDays ?? DEFAULT_FORECAST_LOOKBACK_DAYS;
+    const recentDays = options.recentDays ?? DEFAULT_RECENT_BURN_DAYS;
+
+    const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const startOfTomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+
+    const sumCost = (records: SessionRecord[]) => records.reduce((sum, session) => sum + session.cost, 0);
+    const monthToDate = sumCost(filterSessions(sessions, { since: monthStart, until: monthEnd }));
+
+    // History starts at the lookback window or the first logged day, whichever is later
+    const firstDate = sessions.reduce<Date | null>((earliest, session) => !earliest || session.date < earliest ? session.date : earliest, null);
+    let historyStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() - lookbackDays);
+    if (firstDate && firstDate > historyStart) {
+        historyStart = new Date(firstDate.getFullYear(), firstDate.getMonth(), firstDate.getDate());
+    }
+
+    let dailyCosts: number[] = [];
+    let history: UsageForecast['history'] = null;
+    if (firstDate && historyStart < startOfToday) {
+        const { rows } = aggregate(filterSessions(sessions, { since: historyStart, until: startOfToday }), {
+            unit: 'day',
+            groupBy: ['time'],
+            fillGaps: true,
+            since: historyStart,
+            until: startOfToday
+        });
+        const sortedRows = [...rows].sort((a, b) => a.dimensions[0].localeCompare(b.dimensions[0]));
+        dailyCosts = sortedRows.map(row => row.stats.cost);
+        history = {
+            start: sortedRows[0].dimensions[0],
+            end: sortedRows[sortedRows.length - 1].dimensions[0],
+            days: sortedRows.length
+        };
+    }
+
+    const averageDailyCost = mean(dailyCosts);
+    const recentDailyCost = mean(dailyCosts.slice(-recentDays));
+    const { intercept, slope, residualSd } = fitTrend(dailyCosts);
+
+    // The rest of today, then each whole day up to the end of the month; day index n is today
+    const n = dailyCosts.length;
+    const todayLeft = (startOfTomorrow.getTime() - now.getTime()) / DAY_MS;
+    const remainingDays: { index: number; weight: number }[] = [{ index: n, weight: todayLeft }];
+    for (let day = new Date(startOfTomorrow); day < monthEnd; day.setDate(day.getDate() + 1)) {
+        remainingDays.push({ index: n + remainingDays.length, weight: 1 });
+    }
+    const daysRemaining = remainingDays.reduce((sum, day) => sum + day.weight, 0);
+    const expectedRemaining = n > 0
+        ? remainingDays.reduce((sum, day) => sum + day.weight * Math.max(0, intercept + slope * day.index), 0)
+        : 0;
+    // Daily deviations from the trend are treated as independent
+    const bandWidth = BAND_Z * residualSd * Math.sqrt(daysRemaining);
+    const projected = {
+        low: monthToDate + Math.max(0, expectedRemaining - bandWidth),
+        expected: monthToDate + expectedRemaining,
+        high: monthToDate + expectedRemaining + bandWidth
+    };
+
+    const budgets: ForecastBudget[] = [];
+    const addBudget = (scope: ForecastBudget['scope'], limit: number | null, spent: number) => {
+        if (limit === null) return;
+        const remaining = Math.max(0, limit - spent);
+        const daysUntilExhausted = remaining === 0 ? 0 : (recentDailyCost > 0 ? remaining / recentDailyCost : null);
+        budgets.push({
+            scope,
+            limit,
+            spent,
+            remaining,
+            daysUntilExhausted,
+            exhaustedOn: daysUntilExhausted === null ? null : getAggregationKey(new Date(now.getTime() + daysUntilExhausted * DAY_MS), 'day'),
+            projectedOver: scope === 'monthly' && projected.expected > limit
+        });
+    };
+    if (options.budget) {
+        addBudget('monthly', options.budget.monthly, monthToDate);
+        addBudget('total', options.budget.total, sumCost(sessions));
+    }
+
+    return {
+        generatedAt: now,
+        month: getAggregationKey(now, 'month'),
+        monthToDate,
+        daysElapsed: now.getDate() - todayLeft,
+        daysRemaining,
+        history,
+        averageDailyCost,
+        recentDailyCost,
+        trendSlope: slope,
+        projected,
+        budgets
+    };
+}
+
+// Shape of `forecast --json`
+export function toJsonForecast(forecast: UsageForecast) {
+    const usd = (value: number) => Number(value.toFixed(4));
+    const days = (value: number) => Number(value.toFixed(2));
+    return {
+        generatedAt: forecast.generatedAt.toISOString(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        month: forecast.month,
+        monthToDate: usd(forecast.monthToDate),
+        daysElapsed: days(forecast.daysElapsed),
+        daysRemaining: days(forecast.daysRemaining),
+        history: forecast.history,
+        averageDailyCost: usd(forecast.averageDailyCost),
+        recentDailyCost: usd(forecast.recentDailyCost),
+        trendSlope: Number(forecast.trendSlope.toFixed(6)),
+        projected: {
+            low: usd(forecast.projected.low),
+            expected: usd(forecast.projected.expected),
+            high: usd(forecast.projected.high)
+        },
+        budgets: forecast.budgets.map(budget => ({
+            ...budget,
+            spent: usd(budget.spent),
+            remaining: usd(budget.remaining),
+            daysUntilExhausted: budget.daysUntilExhausted === null ? null : days(budget.daysUntilExhausted)
+        }))
+    };
+}
@@ -0,0 +1,38 @@
+// Programmatic API of cpusage. The CLI in app.ts is a thin wrapper over these functions.
+export type * from './types.js';
+
+export { discoverLogs, DEFAULT_SESSION_DIR, DEFAULT_LOG_DIR, DEFAULT_GEMINI_DIR, DEFAULT_VSCODE_DIR } from './discovery.js';
+export { parseSessionFile, parseUsageLog } from './parser.js';
+export { discoverSources, getSourceAdapter, SOURCE_ADAPTERS, ASSISTANTS } from './sources.js';
+export {
+    analyzeSessions,
+    aggregate,
+    aggregateToolCalls,
+    evaluateBudgets,
+    filterSessions,
+    splitSessionByModel,
+    UNKNOWN_GROUP_VALUE
+} from './analyze.js';
+export { buildUsageReport, parseGroupBy, parseSourceFilter, toJsonReport, REPORT_JSON_VERSION } from './report.js';
+export { startUsageServer } from './server.js';
+export { buildForecast } from './forecast.js';
+export { buildComparison, resolveComparisonWindow } from './compare.js';
+export { collectResponses, rankResponses, summarizeResponses } from './responses.js';
+export { buildWhatIf, parseWhatIf, repriceSession } from './whatif.js';
+export {
+    priceFor,
+    resolvePricingKey,
+    calculateCost,
+    getPremiumMultiplier,
+    loadPricingTable,
+    normalizeModelName,
+    PRICING_TABLE,
+    PRICING_FILE_LOCATIONS,
+    DEFAULT_PREMIUM_PLAN
+} from './pricing.js';
+export { loadConfigFile, BILLING_MODES, CONFIG_FILE_LOCATIONS } from './config.js';
+export { parseDateRange, getAggregationKey, TIME_UNITS } from './dates.js';
+export { loadParseCache, saveParseCache, DEFAULT_PARSE_CACHE_FILE } from './cache.js';
+export { estimateTokensFromText } from './tokens.js';
+export { createTokenCounter, getBpeEncodingForModel, TOKENIZER_MODES } from './tokenizer.js';
+export { createSnapshot, loadSnapshot, SNAPSHOT_VERSION } from './snapshot.js';
@@ -0,0 +1,602 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type {
+    ParseCacheEntry,
+    ParsedFile,
+    ParseIssue,
+    SessionFileState,
+    TokenCounter,
+    ToolCallRecord,
+    UsageLogFileState,
+    UsageLogRecord
+} from './types.js';
+import { UUID_LOG_FILE_PATTERN, UUID_PATTERN, inferSessionIdFromSessionFile } from './discovery.js';
+import { createTokenCounter } from './tokenizer.js';
+import { isRecord } from './util.js';
+
+const LOG_PREFIX_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z)\s+\[[^\]]+\]\s?(.*)$/;
+// Characters of a user message kept as its preview
+export const PROMPT_PREVIEW_LENGTH = 120;
+// Issues kept per file; further ones are only counted, so a corrupt file cannot bloat the cache
+export const MAX_ISSUES_PER_FILE = 100;
+// Characters of a parser error kept in an issue message
+const ISSUE_DETAIL_LENGTH = 80;
+const SESSION_CONTEXT_PATTERN = /\b(?:session|Workspace initialized:)\s*([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\b/i;
+
+interface LogEvent {
+    type: string;
+    timestamp?: string;
+    data: {
+        startTime?: string;
+        sessionId?: string;
+        selectedMode?: string;
+        selectedModel?: string;
+        model?: string;
+        postTruncationTokensInMessages?: number;
+        content?: string;
+        transformedContent?: string;
+        context?: {
+            cwd?: string;
+            gitRoot?: string;
+            repository?: string;
+            branch?: string;
+        };
+        toolRequests?: { toolCallId?: string; name?: string; toolName?: string }[];
+        toolCallId?: string;
+        toolName?: string;
+        name?: string;
+        success?: boolean;
+        result?: unknown;
+        error?: unknown;
+    };
+}
+
+interface ParsedUsageRecord {
+    promptTokens: number;
+    completionTokens: number;
+    cachedTokens: number;
+    cacheWriteTokens: number;
+    reasoningTokens: number;
+    responseId: string | null;
+    sessionId: string | null;
+    model: string | null;
+}
+
+interface FileLine {
+    text: string;
+    start: number;
+    end: number;
+    // False for a trailing line without a newline, which may still be being written
+    complete: boolean;
+}
+
+// Parse a whole session-state log (events.jsonl or a root *.jsonl file)
+export async function parseSessionFile(filePath: string, countTokens: TokenCounter = createTokenCounter('bpe')): Promise<SessionFileState> {
+    const { result } = await parseSessionFileFrom(filePath, await fs.promises.stat(filePath), null, countTokens);
+    return result;
+}
+
+// Parse a whole Copilot usage log (process-*.log or <session-id>.log) into usage records
+export async function parseUsageLog(filePath: string): Promise<UsageLogRecord[]> {
+    const { result } = await parseUsageLogFrom(filePath, await fs.promises.stat(filePath), null);
+    return result.records;
+}
+
+function extractUsageFromResponsePayload(payload: unknown): ParsedUsageRecord | null {
+    if (!isRecord(payload)) return null;
+
+    const usage = payload.usage;
+    if (!isRecord(usage)) return null;
+
+    const promptTokens = usage.prompt_tokens;
+    const completionTokens = usage.completion_tokens;
+    if (typeof promptTokens !== 'number' || typeof completionTokens !== 'number') return null;
+
+    // Optional breakdowns (OpenAI-style details, with Anthropic-style cache fields as fallback).
+    // Absent fields count as zero, which prices everything at the base input/output rates.
+    const promptDetails = isRecord(usage.prompt_tokens_details) ? usage.prompt_tokens_details : {};
+    const completionDetails = isRecord(usage.completion_tokens_details) ? usage.completion_tokens_details : {};
+    const readCount = (...values: unknown[]): number => {
+        const value = values.find(candidate => typeof candidate === 'number' && Number.isFinite(candidate) && candidate > 0);
+        return typeof value === 'number' ? value : 0;
+    };
+    const cachedTokens = readCount(promptDetails.cached_tokens, usage.cache_read_input_tokens);
+    const cacheWriteTokens = readCount(promptDetails.cache_creation_tokens, usage.cache_creation_input_tokens);
+    const reasoningTokens = readCount(completionDetails.reasoning_tokens);
+
+    const responseId = typeof payload.id === 'string'
+        ? payload.id
+        : (typeof payload.responseId === 'string' ? payload.responseId : null);
+    const sessionIdValue = payload.sessionId ?? payload.session_id;
+    const sessionId = typeof sessionIdValue === 'string' ? sessionIdValue : null;
+    const model = typeof payload.model === 'string' ? payload.model : null;
+
+    return {
+        promptTokens,
+        completionTokens,
+        cachedTokens,
+        cacheWriteTokens,
+        reasoningTokens,
+        responseId,
+        sessionId,
+        model
+    };
+}
+
+// Yield lines with their byte offsets so parsing can resume mid-file
+async function* readLines(filePath: string, start: number): AsyncGenerator<FileLine> {
+    const fileStream = fs.createReadStream(filePath, { start });
+    let pending: Buffer = Buffer.alloc(0);
+    let offset = start;
+
+    for await (const chunk of fileStream as AsyncIterable<Buffer>) {
+        const data = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+        let lineStart = 0;
+        let newline = data.indexOf(0x0a);
+        while (newline !== -1) {
+            const text = data.toString('utf8', lineStart, newline).replace(/\r$/, '');
+            yield { text, start: offset + lineStart, end: offset + newline + 1, complete: true };
+            lineStart = newline + 1;
+            newline = data.indexOf(0x0a, lineStart);
+        }
+        pending = data.subarray(lineStart);
+        offset += lineStart;
+    }
+
+    if (pending.length > 0) {
+        yield { text: pending.toString('utf8').replace(/\r$/, ''), start: offset, end: offset + pending.length, complete: false };
+    }
+}
+
+function createSessionFileState(filePath: string): SessionFileState {
+    return {
+        sessionId: inferSessionIdFromSessionFile(filePath),
+        startTime: null,
+        model: 'default', // Default model
+        context: {},
+        inputTokensFromMessages: 0,
+        inputTokensFromTruncationSum: 0,
+        outputTokens: 0,
+        toolCalls: {},
+        userMessages: [],
+        lines: 0,
+        issues: [],
+        issueCount: 0
+    };
+}
+
+function addIssue(state: { issues: ParseIssue[]; issueCount: number }, issue: ParseIssue) {
+    state.issueCount++;
+    if (state.issues.length < MAX_ISSUES_PER_FILE) {
+        state.issues.push(issue);
+    }
+}
+
+function describeError(e: unknown): string {
+    const message = e instanceof Error ? e.message : String(e);
+    return message.length > ISSUE_DETAIL_LENGTH ? `${message.slice(0, ISSUE_DETAIL_LENGTH - 1)}…` : message;
+}
+
+// Collapse whitespace and cut long prompts for previews
+function truncatePreview(text: string): string {
+    const collapsed = text.replace(/\s+/g, ' ').trim();
+    return collapsed.length > PROMPT_PREVIEW_LENGTH ? `${collapsed.slice(0, PROMPT_PREVIEW_LENGTH - 1)}…` : collapsed;
+}
+
+function getToolCall(state: SessionFileState, toolCallId: string): ToolCallRecord {
+    let call = state.toolCalls[toolCallId];
+    if (!call) {
+        call = { toolCallId, toolName: 'unknown', startTime: null, endTime: null, success: null, resultTokens: 0 };
+        state.toolCalls[toolCallId] = call;
+    }
+    return call;
+}
+
+// Tool results are fed back to the model; count their text (or the error) as input
+function estimateToolResultTokens(data: LogEvent['data'], model: string, countTokens: TokenCounter): number {
+    const result = data.result !== undefined ? data.result : data.error;
+    if (result === undefined || result === null) return 0;
+    if (typeof result === 'string') return countTokens(result, model);
+    if (isRecord(result) && typeof result.content === 'string') return countTokens(result.content, model);
+    if (isRecord(result) && typeof result.message === 'string') return countTokens(result.message, model);
+    return countTokens(JSON.stringify(result), model);
+}
+
+// Text is counted with the tokenizer of the model in effect when the event was logged.
+// Lines that are not JSON events are recorded as issues at `lineNumber` (null: not recorded).
+function applySessionEvent(state: SessionFileState, line: string, countTokens: TokenCounter, lineNumber: number | null) {
+    if (!line.trim()) return;
+    let event: LogEvent;
+    try {
+        event = JSON.parse(line) as LogEvent;
+    } catch (e) {
+        if (lineNumber !== null) {
+            addIssue(state, { line: lineNumber, kind: 'malformed-line', message: `Invalid JSON: ${describeError(e)}` });
+        }
+        return;
+    }
+    if (!isRecord(event) || typeof event.type !== 'string' || !isRecord(event.data)) {
+        if (lineNumber !== null) {
+            addIssue(state, { line: lineNumber, kind: 'malformed-line', message: 'Not a log event with a type and data' });
+        }
+        return;
+    }
+
+    try {
+        // Get Session Date
+        if (event.type === 'session.start' && event.data.startTime) {
+            state.startTime = event.data.startTime;
+            if (event.data.sessionId) {
+                state.sessionId = event.data.sessionId;
+            }
+            if (event.data.context) {
+                state.context = {
+                    repository: event.data.context.repository,
+                    branch: event.data.context.branch,
+                    cwd: event.data.context.cwd || event.data.context.gitRoot
+                };
+            }
+
+            // Attempt to find model in session.start (if ever added)
+            state.model = event.data.selectedModel || event.data.selectedMode || event.data.model || state.model;
+        }
+
+        // Check other events for model info (just in case)
+        if (event.type === 'session.info') {
+            state.model = event.data.selectedModel || event.data.selectedMode || event.data.model || state.model;
+        }
+
+        // Input Tokens (estimate)
+        if (event.type === 'user.message') {
+            const content = event.data.transformedContent || event.data.content || '';
+            state.inputTokensFromMessages += countTokens(content, state.model);
+            // The preview shows what the user typed, without injected context
+            state.userMessages.push({
+                timestamp: event.timestamp || null,
+                preview: truncatePreview(event.data.content || content)
+            });
+        }
+
+        // Input Tokens (if present in logs, treat as more authoritative than heuristics)
+        if (event.type === 'session.truncation') {
+            state.inputTokensFromTruncationSum += (event.data.postTruncationTokensInMessages || 0);
+        }
+
+        // Output Tokens
+        if (event.type === 'assistant.message') {
+            state.outputTokens += countTokens(event.data.content || '', state.model);
+        }
+
+        // Some logs store assistant reasoning separately.
+        if (event.type === 'assistant.reasoning') {
+            state.outputTokens += countTokens(event.data.content || '', state.model);
+        }
+
+        // Tool calls: names come from toolRequests or the start event, timing from both events
+        if (event.type === 'assistant.message' && Array.isArray(event.data.toolRequests)) {
+            for (const request of event.data.toolRequests) {
+                if (!request || !request.toolCallId) continue;
+                const call = getToolCall(state, request.toolCallId);
+                call.toolName = request.name || request.toolName || call.toolName;
+            }
+        }
+
+        if (event.type === 'tool.execution_start' && event.data.toolCallId) {
+            const call = getToolCall(state, event.data.toolCallId);
+            call.toolName = event.data.toolName || event.data.name || call.toolName;
+            call.startTime = event.timestamp || call.startTime;
+        }
+
+        if (event.type === 'tool.execution_complete' && event.data.toolCallId) {
+            const call = getToolCall(state, event.data.toolCallId);
+            call.toolName = event.data.toolName || event.data.name || call.toolName;
+            call.endTime = event.timestamp || call.endTime;
+            call.success = typeof event.data.success === 'boolean' ? event.data.success : !event.data.error;
+            call.resultTokens = estimateToolResultTokens(event.data, state.model, countTokens);
+        }
+
+    } catch (e) {
+        if (lineNumber !== null) {
+            addIssue(state, { line: lineNumber, kind: 'malformed-line', message: `Unexpected ${event.type} event: ${describeError(e)}` });
+        }
+    }
+}
+
+// Parse a session-state log from the resume point of a cached entry (or from the start)
+export async function parseSessionFileFrom(
+    filePath: string,
+    stat: fs.Stats,
+    resumeFrom: ParseCacheEntry<SessionFileState> | null,
+    countTokens: TokenCounter
+): Promise<ParsedFile<SessionFileState>> {
+    const state = resumeFrom ? structuredClone(resumeFrom.state) : createSessionFileState(filePath);
+    let offset = resumeFrom ? resumeFrom.offset : 0;
+    let trailingLine: string | null = null;
+
+    for await (const line of readLines(filePath, offset)) {
+        if (!line.complete) {
+            // Possibly still being written: count it now, but re-read it next time
+            trailingLine = line.text;
+            break;
+        }
+        state.lines++;
+        applySessionEvent(state, line.text, countTokens, state.lines);
+        offset = line.end;
+    }
+
+    const entry = { size: stat.size, mtimeMs: stat.mtimeMs, offset, state };
+    if (trailingLine === null) {
+        return { entry, result: state };
+    }
+
+    // A line still being written is expected to be incomplete JSON, so it is not an issue yet
+    const result = structuredClone(state);
+    applySessionEvent(result, trailingLine, countTokens, null);
+    return { entry, result };
+}
+
+// Parse a Copilot usage log from the resume point of a cached entry (or from the start)
+export async function parseUsageLogFrom(filePath: string, stat: fs.Stats, resumeFrom: ParseCacheEntry<UsageLogFileState> | null): Promise<ParsedFile<UsageLogFileState>> {
+    const fileName = path.basename(filePath);
+    const fileSessionId = UUID_LOG_FILE_PATTERN.test(fileName) ? fileName.replace(/\.log$/i, '') : null;
+    const state: UsageLogFileState = resumeFrom
+        ? structuredClone(resumeFrom.state)
+        : { currentSessionId: fileSessionId, records: [], lines: 0, issues: [], issueCount: 0 };
+    let jsonBuffer: string[] | null = null;
+    let jsonBufferSessionId: string | null = null;
+    let jsonBufferTimestamp: string | null = null;
+    let jsonBufferLine = 0;
+
+    // Resume point: everything before safeOffset is reflected in the first safeRecordCount
+    // records, the first safeLineCount lines and the first safeIssueCount issues
+    let safeOffset = resumeFrom ? resumeFrom.offset : 0;
+    let safeSessionId = state.currentSessionId;
+    let safeRecordCount = state.records.length;
+    let safeLineCount = state.lines;
+    let safeIssueCount = state.issueCount;
+    let lastLineComplete = true;
+    let lastLineEnd = safeOffset;
+    let lineNumber = state.lines;
+
+    // A payload still open at the end of the file may be being written, so it is not
+    // reported when it does not parse (yet)
+    const finalizeJsonBuffer = (atEnd = false) => {
+        if (!jsonBuffer) return;
+
+        const jsonText = jsonBuffer.join('\n').trim();
+        const contextSessionId = jsonBufferSessionId;
+        const contextTimestamp = jsonBufferTimestamp;
+        const payloadLine = jsonBufferLine;
+        jsonBuffer = null;
+        jsonBufferSessionId = null;
+        jsonBufferTimestamp = null;
+
+        if (!jsonText) return;
+
+        let payload: unknown;
+        try {
+            payload = JSON.parse(jsonText);
+        } catch (e) {
+            if (!atEnd) {
+                addIssue(state, { line: payloadLine, kind: 'malformed-payload', message: `Invalid JSON payload: ${describeError(e)}` });
+            }
+            return;
+        }
+
+        const usageRecord = extractUsageFromResponsePayload(payload);
+        if (!usageRecord) return;
+
+        const sessionId = usageRecord.sessionId || contextSessionId || fileSessionId;
+        if (!sessionId || !UUID_PATTERN.test(sessionId)) {
+            const tokens = (usageRecord.promptTokens + usageRecord.completionTokens).toLocaleString('en-US');
+            const detail = sessionId ? `session ID '${sessionId}' is not a UUID` : 'no session ID in the payload or log context';
+            addIssue(state, { line: payloadLine, kind: 'unattributed-usage', message: `Usage of ${tokens} tokens not counted: ${detail}` });
+            return;
+        }
+
+        state.records.push({
+            sessionId,
+            responseId: usageRecord.responseId,
+            model: usageRecord.model,
+            timestamp: contextTimestamp,
+            inputTokens: usageRecord.promptTokens,
+            outputTokens: usageRecord.completionTokens,
+            cachedInputTokens: usageRecord.cachedTokens,
+            cacheWriteTokens: usageRecord.cacheWriteTokens,
+            reasoningTokens: usageRecord.reasoningTokens
+        });
+    };
+
+    for await (const line of readLines(filePath, safeOffset)) {
+        const prefixMatch = line.text.match(LOG_PREFIX_PATTERN);
+        lastLineComplete = line.complete;
+        lastLineEnd = line.end;
+        lineNumber++;
+
+        if (jsonBuffer && prefixMatch) {
+            finalizeJsonBuffer();
+        }
+
+        // A multi-line JSON payload may still be growing, so only advance the
+        // resume point at lines where no payload is open
+        if (!jsonBuffer) {
+            safeOffset = line.start;
+            safeSessionId = state.currentSessionId;
+            safeRecordCount = state.records.length;
+            safeLineCount = lineNumber - 1;
+            safeIssueCount = state.issueCount;
+        }
+
+        if (!prefixMatch) {
+            if (jsonBuffer) {
+                jsonBuffer.push(line.text);
+            }
+            continue;
+        }
+
+        const payloadLine = prefixMatch[2] || '';
+        const sessionMatch = payloadLine.match(SESSION_CONTEXT_PATTERN);
+        if (sessionMatch) {
+            state.currentSessionId = sessionMatch[1];
+        }
+
+        if (!jsonBuffer && payloadLine.trimStart().startsWith('{')) {
+            const timestamp = new Date(prefixMatch[1]);
+            jsonBuffer = [payloadLine];
+            jsonBufferLine = lineNumber;
+            jsonBufferSessionId = state.currentSessionId;
+            jsonBufferTimestamp = Number.isNaN(timestamp.getTime()) ? null : timestamp.toISOString();
+        }
+    }
+
+    if (!jsonBuffer && lastLineComplete) {
+        safeOffset = lastLineEnd;
+        safeSessionId = state.currentSessionId;
+        safeRecordCount = state.records.length;
+        safeLineCount = lineNumber;
+        safeIssueCount = state.issueCount;
+    }
+
+    const entry: ParseCacheEntry<UsageLogFileState> = {
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+        offset: safeOffset,
+        state: {
+            currentSessionId: safeSessionId,
+            records: state.records.slice(0, safeRecordCount),
+            lines: safeLineCount,
+            issues: state.issues.slice(0, safeIssueCount),
+            issueCount: safeIssueCount
+        }
+    };
+
+    if (jsonBuffer) {
+        finalizeJsonBuffer(true);
+    }
+    state.lines = lineNumber;
+
+    return { entry, result: state };
+}
+
+// Read a whole-file JSON log. A file that does not parse yields no records and one issue.
+async function readJsonLog(filePath: string, state: UsageLogFileState): Promise<Record<string, unknown> | null> {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    state.lines = content.split('\n').length;
+    try {
+        const parsed: unknown = JSON.parse(content);
+        if (isRecord(parsed)) return parsed;
+        addIssue(state, { line: 1, kind: 'malformed-payload', message: 'Expected a JSON object' });
+    } catch (e) {
+        addIssue(state, { line: 1, kind: 'malformed-payload', message: `Invalid JSON: ${describeError(e)}` });
+    }
+    return null;
+}
+
+function readTokenCount(value: unknown): number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+// Parse a Gemini CLI chat file (<project hash>/chats/session-*.json) into one usage record per
+// model reply. The file is rewritten as the chat goes on, so it is always read whole.
+export async function parseGeminiChatFrom(filePath: string, stat: fs.Stats): Promise<ParsedFile<UsageLogFileState>> {
+    const state: UsageLogFileState = { currentSessionId: null, records: [], lines: 0, issues: [], issueCount: 0 };
+    const chat = await readJsonLog(filePath, state);
+    const sessionId = chat && typeof chat.sessionId === 'string' ? chat.sessionId : null;
+    const messages = chat && Array.isArray(chat.messages) ? chat.messages : [];
+
+    for (const message of messages) {
+        if (!isRecord(message) || message.type !== 'gemini' || !isRecord(message.tokens)) continue;
+        const tokens = message.tokens;
+        if (!sessionId || !UUID_PATTERN.test(sessionId)) {
+            const total = (readTokenCount(tokens.input) + readTokenCount(tokens.output)).toLocaleString('en-US');
+            const detail = sessionId ? `session ID '${sessionId}' is not a UUID` : 'no session ID in the chat file';
+            addIssue(state, { line: 1, kind: 'unattributed-usage', message: `Usage of ${total} tokens not counted: ${detail}` });
+            continue;
+        }
+
+        // `input` includes the cached prompt tokens; tool-use prompts and thoughts are counted apart
+        const timestamp = typeof message.timestamp === 'string' ? new Date(message.timestamp) : null;
+        const thoughts = readTokenCount(tokens.thoughts);
+        state.records.push({
+            sessionId,
+            responseId: typeof message.id === 'string' ? message.id : null,
+            model: typeof message.model === 'string' ? message.model : null,
+            timestamp: timestamp && !Number.isNaN(timestamp.getTime()) ? timestamp.toISOString() : null,
+            inputTokens: readTokenCount(tokens.input) + readTokenCount(tokens.tool),
+            outputTokens: readTokenCount(tokens.output) + thoughts,
+            cachedInputTokens: readTokenCount(tokens.cached),
+            cacheWriteTokens: 0,
+            reasoningTokens: thoughts
+        });
+    }
+
+    return { entry: { size: stat.size, mtimeMs: stat.mtimeMs, offset: stat.size, state }, result: state };
+}
+
+// Prompt and completion counts of a chat request result, when the extension recorded them
+function readVscodeUsage(result: Record<string, unknown>): { promptTokens: number; completionTokens: number } | null {
+    const metadata = isRecord(result.metadata) ? result.metadata : {};
+    for (const usage of [result.usage, metadata.usage]) {
+        if (!isRecord(usage)) continue;
+        const promptTokens = usage.promptTokens ?? usage.prompt_tokens;
+        const completionTokens = usage.completionTokens ?? usage.completion_tokens;
+        if (typeof promptTokens === 'number' && typeof completionTokens === 'number') {
+            return { promptTokens, completionTokens };
+        }
+    }
+    return null;
+}
+
+// Markdown text of a chat response, the parts the model wrote
+function getVscodeResponseText(response: unknown): string {
+    if (!Array.isArray(response)) return '';
+    return response.map(part => {
+        if (!isRecord(part)) return '';
+        if (typeof part.value === 'string') return part.value;
+        return isRecord(part.content) && typeof part.content.value === 'string' ? part.content.value : '';
+    }).join('');
+}
+
+// Parse a VS Code Copilot Chat session (<workspace hash>/chatSessions/<session-id>.json) into
+// one usage record per request. Requests without recorded usage are estimated from the prompt
+// and response text. The file is rewritten as the chat goes on, so it is always read whole.
+export async function parseVscodeChatSessionFrom(filePath: string, stat: fs.Stats, countTokens: TokenCounter): Promise<ParsedFile<UsageLogFileState>> {
+    const state: UsageLogFileState = { currentSessionId: null, records: [], lines: 0, issues: [], issueCount: 0 };
+    const chat = await readJsonLog(filePath, state);
+    const sessionId = chat && typeof chat.sessionId === 'string' ? chat.sessionId : path.basename(filePath, '.json');
+    const requests = chat && Array.isArray(chat.requests) ? chat.requests : [];
+    const creationDate = chat && typeof chat.creationDate === 'number' ? chat.creationDate : null;
+
+    for (const request of requests) {
+        if (!isRecord(request) || request.response === undefined) continue;
+        const model = typeof request.modelId === 'string' ? request.modelId : null;
+        const result = isRecord(request.result) ? request.result : {};
+        const usage = readVscodeUsage(result);
+        const promptText = isRecord(request.message) && typeof request.message.text === 'string'
+            ? request.message.text
+            : (typeof request.message === 'string' ? request.message : '');
+        const inputTokens = usage ? usage.promptTokens : countTokens(promptText, model || 'default');
+        const outputTokens = usage ? usage.completionTokens : countTokens(getVscodeResponseText(request.response), model || 'default');
+        if (!UUID_PATTERN.test(sessionId)) {
+            const detail = `session ID '${sessionId}' is not a UUID`;
+            addIssue(state, { line: 1, kind: 'unattributed-usage', message: `Usage of ${(inputTokens + outputTokens).toLocaleString('en-US')} tokens not counted: ${detail}` });
+            continue;
+        }
+
+        const time = typeof request.timestamp === 'number' ? request.timestamp : creationDate;
+        state.records.push({
+            sessionId,
+            responseId: typeof request.requestId === 'string' ? request.requestId : null,
+            model,
+            timestamp: time !== null && !Number.isNaN(new Date(time).getTime()) ? new Date(time).toISOString() : null,
+            inputTokens,
+            outputTokens,
+            cachedInputTokens: 0,
+            cacheWriteTokens: 0,
+            reasoningTokens: 0,
+            ...(usage ? {} : { estimated: true })
+        });
+    }
+
+    return { entry: { size: stat.size, mtimeMs: stat.mtimeMs, offset: stat.size, state }, result: state };
+}
@@ -0,0 +1,223 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { PremiumPlan, Pricing, PricingEntry, PricingMatch, PricingTable, TokenUsage } from './types.js';
+import { isRecord } from './util.js';
+
+// Pricing Table (USD per 1M tokens, plus the Copilot premium-request multiplier)
+export const PRICING_TABLE: Record<string, Pricing> = {
+    // OpenAI GPT-5.2 系列
+    'gpt-5.2-codex': { input: 1.75, output: 14.00, cachedInput: 0.175 },
+    'gpt-5.2': { input: 1.75, output: 14.00, cachedInput: 0.175 },
+    
+    // OpenAI GPT-5.1 系列
+    'gpt-5.1-codex-max': { input: 1.25, output: 10.00, cachedInput: 0.125 },
+    'gpt-5.1-codex': { input: 1.25, output: 10.00, cachedInput: 0.125 },
+    'gpt-5.1': { input: 1.25, output: 10.00, cachedInput: 0.125 },
+    'gpt-5.1-codex-mini': { input: 0.25, output: 2.00, cachedInput: 0.025, premiumMultiplier: 0.33 },
+    
+    // OpenAI GPT-5 與其他
+    'gpt-5': { input: 1.25, output: 10.00, cachedInput: 0.125 },
+    'gpt-5-mini': { input: 0.25, output: 2.00, cachedInput: 0.025, premiumMultiplier: 0 },
+    'gpt-4.1': { input: 2.00, output: 8.00, cachedInput: 0.50, premiumMultiplier: 0 },
+    
+    // Anthropic Claude 系列
+    'claude-opus-4.5': { input: 5.00, output: 25.00, cachedInput: 0.50, cacheWrite: 6.25, premiumMultiplier: 3 },
+    'claude-sonnet-4.5': { input: 1.00, output: 3.00, cachedInput: 0.10, cacheWrite: 1.25 },
+    'claude-sonnet-4': { input: 1.00, output: 3.00, cachedInput: 0.10, cacheWrite: 1.25 },
+    'claude-haiku-4.5': { input: 0.10, output: 0.50, cachedInput: 0.01, cacheWrite: 0.125, premiumMultiplier: 0.33 },
+    
+    // Google Gemini 系列
+    'gemini-3-pro-preview': { input: 2.00, output: 12.00, cachedInput: 0.20 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00, cachedInput: 0.125 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50, cachedInput: 0.03 },
+    
+    // 預設值
+    'default': { input: 1.00, output: 3.00, cachedInput: 0.10, cacheWrite: 1.25 }
+};
+
+export const BUILT_IN_PRICING_SOURCE = 'built-in';
+
+// Copilot Pro: 300 premium requests a month, then $0.04 per request
+export const DEFAULT_PREMIUM_PLAN: PremiumPlan = { allowance: 300, overagePrice: 0.04 };
+
+// Pricing files looked up when none is given explicitly, in order
+export const PRICING_FILE_LOCATIONS = [
+    path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'cpusage', 'pricing.json'),
+    path.join(os.homedir(), '.copilot', 'cpusage-pricing.json')
+];
+
+// Lower-case, '-'-separated model name; vendor and version separators such as ':' and '@'
+// become '-' so that pricing keys still match on a name boundary
+export function normalizeModelName(model: string): string {
+    return model
+        .trim()
+        .toLowerCase()
+        .replace(/\s+/g, '-')
+        .replace(/[_:@]/g, '-')
+        .replace(/[^a-z0-9.-]/g, '')
+        .replace(/-+/g, '-');
+}
+
+// Build the active pricing table from the built-in PRICING_TABLE and an optional pricing file.
+// The file looks like { "mode": "merge" | "replace", "models": { "<model>": { "input", "output",
+// "cachedInput"?, "cacheWrite"?, "reasoning"?, "premiumMultiplier"?, "match"?, "aliases"? } } }.
+export function loadPricingTable(filePath: string | null = null): PricingTable {
+    const builtIn: PricingTable = {};
+    for (const [model, pricing] of Object.entries(PRICING_TABLE)) {
+        builtIn[model] = {
+            ...pricing,
+            match: model === 'default' ? 'exact' : 'prefix',
+            aliases: [],
+            source: BUILT_IN_PRICING_SOURCE
+        };
+    }
+
+    if (!filePath) return builtIn;
+
+    const fail = (message: string): never => {
+        throw new Error(`Invalid pricing file ${filePath}: ${message}`);
+    };
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e) {
+        return fail((e as Error).message);
+    }
+
+    if (!isRecord(parsed) || Array.isArray(parsed)) fail('expected a JSON object at the top level');
+    const root = parsed as Record<string, unknown>;
+
+    for (const field of Object.keys(root)) {
+        if (field !== 'mode' && field !== 'models') fail(`unknown field "${field}" (expected "mode" and "models")`);
+    }
+
+    const mode = root.mode ?? 'merge';
+    if (mode !== 'merge' && mode !== 'replace') fail(`"mode" must be "merge" or "replace", got ${JSON.stringify(mode)}`);
+    if (!isRecord(root.models) || Array.isArray(root.models)) fail('"models" must be an object keyed by model name');
+
+    const table: PricingTable = mode === 'replace' ? {} : builtIn;
+    for (const [rawModel, value] of Object.entries(root.models as Record<string, unknown>)) {
+        const model = normalizeModelName(rawModel);
+        const where = `models["${rawModel}"]`;
+        if (!model) fail(`${where} is not a valid model name`);
+        if (!isRecord(value) || Array.isArray(value)) fail(`${where} must be an object`);
+        const entry = value as Record<string, unknown>;
+
+        for (const field of Object.keys(entry)) {
+            if (!['input', 'output', 'cachedInput', 'cacheWrite', 'reasoning', 'premiumMultiplier', 'match', 'aliases'].includes(field)) {
+                fail(`${where} has unknown field "${field}"`);
+            }
+        }
+        for (const field of ['input', 'output', 'cachedInput', 'cacheWrite', 'reasoning']) {
+            const price = entry[field];
+            if (price === undefined && field !== 'input' && field !== 'output') continue;
+            if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+                fail(`${where}.${field} must be a non-negative number (USD per 1M tokens)`);
+            }
+        }
+
+        const multiplier = entry.premiumMultiplier;
+        if (multiplier !== undefined && (typeof multiplier !== 'number' || !Number.isFinite(multiplier) || multiplier < 0)) {
+            fail(`${where}.premiumMultiplier must be a non-negative number (premium requests per request)`);
+        }
+
+        const match = entry.match ?? 'prefix';
+        if (match !== 'exact' && match !== 'prefix') fail(`${where}.match must be "exact" or "prefix"`);
+
+        const aliases = entry.aliases ?? [];
+        if (!Array.isArray(aliases) || aliases.some(alias => typeof alias !== 'string' || !normalizeModelName(alias))) {
+            fail(`${where}.aliases must be an array of model names`);
+        }
+
+        table[model] = {
+            input: entry.input as number,
+            output: entry.output as number,
+            cachedInput: entry.cachedInput as number | undefined,
+            cacheWrite: entry.cacheWrite as number | undefined,
+            reasoning: entry.reasoning as number | undefined,
+            premiumMultiplier: multiplier as number | undefined,
+            // 'default' is the fallback and never claims other names by prefix
+            match: model === 'default' ? 'exact' : match as PricingMatch,
+            aliases: (aliases as string[]).map(normalizeModelName),
+            source: filePath
+        };
+    }
+
+    // A replacing table still needs a fallback for unmatched models
+    if (!table['default']) {
+        table['default'] = builtIn['default'];
+    }
+
+    return table;
+}
+
+// Resolve a raw model name to the pricing table key used to price it.
+// Precedence: exact key, then alias, then the longest 'prefix' key the name starts with,
+// then the longest 'prefix' key found anywhere in it (e.g. 'copilot-claude-sonnet-4.5'
+// or 'anthropic:claude-sonnet-4.5'), then 'default'. Keys only match on name boundaries.
+export function resolvePricingKey(model: string, table: PricingTable): string {
+    // Drop provider prefixes such as "anthropic/" and normalize (case insensitive)
+    const normalizedModel = normalizeModelName(model.split('/').pop() || model);
+    if (table[normalizedModel]) {
+        return normalizedModel;
+    }
+
+    for (const [key, pricing] of Object.entries(table)) {
+        if (pricing.aliases.includes(normalizedModel)) {
+            return key;
+        }
+    }
+
+    let bestKey = 'default';
+    let bestLength = 0;
+    for (const [key, pricing] of Object.entries(table)) {
+        if (pricing.match !== 'prefix' || key.length <= bestLength) continue;
+        // Only match on a name boundary, so 'gpt-5' does not claim 'gpt-50'
+        if (normalizedModel.startsWith(key) && !/[a-z0-9]/.test(normalizedModel.charAt(key.length))) {
+            bestKey = key;
+            bestLength = key.length;
+        }
+    }
+    if (bestKey !== 'default') {
+        return bestKey;
+    }
+
+    for (const [key, pricing] of Object.entries(table)) {
+        if (pricing.match !== 'prefix' || key.length <= bestLength) continue;
+        for (let index = normalizedModel.indexOf(key); index !== -1; index = normalizedModel.indexOf(key, index + 1)) {
+            const before = normalizedModel.charAt(index - 1);
+            const after = normalizedModel.charAt(index + key.length);
+            if (!/[a-z0-9]/.test(before) && !/[a-z0-9]/.test(after)) {
+                bestKey = key;
+                bestLength = key.length;
+                break;
+            }
+        }
+    }
+
+    return bestKey;
+}
+
+// Pricing table key and entry applied to a raw model name
+export function priceFor(model: string, table: PricingTable = loadPricingTable()): { key: string; pricing: PricingEntry } {
+    const key = resolvePricingKey(model, table);
+    return { key, pricing: table[key] };
+}
+
+export function calculateCost(pricing: Pricing, usage: TokenUsage): number {
+    // Cached and reasoning tokens are billed at their own tier instead of the base rate
+    const uncachedInputTokens = Math.max(0, usage.inputTokens - usage.cachedInputTokens - usage.cacheWriteTokens);
+    const plainOutputTokens = Math.max(0, usage.outputTokens - usage.reasoningTokens);
+
+    return (uncachedInputTokens / 1_000_000 * pricing.input) +
+           (usage.cachedInputTokens / 1_000_000 * (pricing.cachedInput ?? pricing.input)) +
+           (usage.cacheWriteTokens / 1_000_000 * (pricing.cacheWrite ?? pricing.input)) +
+           (plainOutputTokens / 1_000_000 * pricing.output) +
+           (usage.reasoningTokens / 1_000_000 * (pricing.reasoning ?? pricing.output));
+}
+
+export function getPremiumMultiplier(pricing: Pricing): number {
+    return pricing.premiumMultiplier ?? 1;
+}
@@ -0,0 +1,352 @@
+import type {
+    Assistant,
+    BillingConfig,
+    BillingMode,
+    BudgetEvaluation,
+    BudgetScope,
+    BudgetStatus,
+    DailyStats,
+    GroupDimension,
+    PricingTable,
+    SessionDataSource,
+    SessionRecord,
+    SessionSortKey,
+    SourceFilter,
+    StatField,
+    TimeUnit,
+    ToolAggregateRow,
+    ToolGroupDimension,
+    UsageReport,
+    UsageReportOptions,
+    UsageReportRow
+} from './types.js';
+import { aggregate, evaluateBudgets } from './analyze.js';
+import { TIME_UNITS } from './dates.js';
+import { DEFAULT_PREMIUM_PLAN, getPremiumMultiplier } from './pricing.js';
+import { ASSISTANTS } from './sources.js';
+import { SESSION_DATA_SOURCES } from './tokens.js';
+
+// Report building and JSON shapes shared by the CLI renderers and the HTTP server
+
+// Bump when the `--format json` envelope changes incompatibly
+export const REPORT_JSON_VERSION = 1;
+
+// Values of --source and the data sources each one keeps
+export const DATA_SOURCE_FILTERS: Record<string, SessionDataSource[] | null> = {
+    'usage-only': ['usage-log'],
+    'estimates-only': ['truncation', 'heuristic'],
+    all: null
+};
+
+// Split a comma-separated --source value into at most one DATA_SOURCE_FILTERS name and any assistants
+export function parseSourceFilter(value: string): SourceFilter {
+    const items = value.split(',').map(item => item.trim().toLowerCase()).filter(item => item.length > 0);
+    const filterNames = items.filter(item => item in DATA_SOURCE_FILTERS);
+    const unknown = items.filter(item => !(item in DATA_SOURCE_FILTERS) && !ASSISTANTS.includes(item as Assistant));
+    if (items.length === 0 || unknown.length > 0 || filterNames.length > 1) {
+        throw new Error(`Invalid source: ${value}. Use one of ${Object.keys(DATA_SOURCE_FILTERS).join(', ')} and/or assistants (${ASSISTANTS.join(', ')}).`);
+    }
+
+    const assistants = items.filter(item => ASSISTANTS.includes(item as Assistant)) as Assistant[];
+    return {
+        dataSources: filterNames.length > 0 ? DATA_SOURCE_FILTERS[filterNames[0]] : null,
+        assistants: assistants.length > 0 ? [...new Set(assistants)] : null
+    };
+}
+
+export const GROUP_DIMENSIONS: GroupDimension[] = ['time', 'model', 'repo', 'branch', 'cwd', 'machine', 'assistant'];
+
+// Column header (text) and field name (JSON) for each group-by dimension
+export const GROUP_DIMENSION_LABELS: Record<GroupDimension, { header: string; field: string }> = {
+    time: { header: 'Date', field: 'date' },
+    model: { header: 'Model', field: 'model' },
+    repo: { header: 'Repository', field: 'repo' },
+    branch: { header: 'Branch', field: 'branch' },
+    cwd: { header: 'Working Directory', field: 'cwd' },
+    machine: { header: 'Machine', field: 'machine' },
+    assistant: { header: 'Assistant', field: 'assistant' }
+};
+
+// Dimensions of the `tools` report
+export const TOOL_GROUP_DIMENSIONS: ToolGroupDimension[] = ['time', 'session', 'tool'];
+export const TOOL_GROUP_DIMENSION_LABELS: Record<ToolGroupDimension, { header: string; field: string }> = {
+    time: { header: 'Date', field: 'date' },
+    session: { header: 'Session ID', field: 'sessionId' },
+    tool: { header: 'Tool', field: 'tool' }
+};
+
+// Numeric columns shared by the report renderers
+export const REPORT_STAT_COLUMNS: { header: string; field: StatField }[] = [
+    { header: 'Sessions', field: 'sessions' },
+    { header: 'Input Tokens', field: 'input' },
+    { header: 'Cached Input', field: 'cachedInput' },
+    { header: 'Cache Write', field: 'cacheWrite' },
+    { header: 'Output Tokens', field: 'output' },
+    { header: 'Reasoning', field: 'reasoning' },
+    { header: 'Est. Cost', field: 'cost' }
+];
+
+const PREMIUM_STAT_COLUMNS: { header: string; field: StatField }[] = [
+    { header: 'Premium Req.', field: 'premiumRequests' },
+    { header: 'Premium Cost', field: 'premiumCost' }
+];
+
+export const DEFAULT_BILLING: BillingConfig = { mode: 'tokens', ...DEFAULT_PREMIUM_PLAN };
+
+// Numeric report columns for a billing mode: premium replaces the token cost, both adds to it
+export function getReportStatColumns(mode: BillingMode): { header: string; field: StatField }[] {
+    if (mode === 'tokens') return REPORT_STAT_COLUMNS;
+    const tokenColumns = mode === 'premium' ? REPORT_STAT_COLUMNS.filter(column => column.field !== 'cost') : REPORT_STAT_COLUMNS;
+    return [...tokenColumns, ...PREMIUM_STAT_COLUMNS];
+}
+
+export const SESSION_SORT_KEYS: SessionSortKey[] = ['date', 'cost', 'tokens', 'input', 'output'];
+
+// Parse a comma-separated group-by list of `dimensions`; a time unit (day, week, month, ...)
+// adds the time dimension
+export function parseGroupBy<T extends GroupDimension | ToolGroupDimension>(value: string, dimensions: T[]): { dimensions: T[]; unit: TimeUnit | null } {
+    const groupByArg = value.toLowerCase();
+    const otherDimensions = dimensions.filter(dimension => dimension !== 'time');
+    const allowed = `${TIME_UNITS.join(', ')}, ${otherDimensions.join(', ')}`;
+    const selected: T[] = [];
+    let unit: TimeUnit | null = null;
+    for (const part of groupByArg.split(',').map(item => item.trim()).filter(Boolean)) {
+        let dimension: T;
+        if (TIME_UNITS.includes(part as TimeUnit)) {
+            if (unit) {
+                throw new Error(`Invalid group-by: ${groupByArg}. Only one time unit is allowed.`);
+            }
+            unit = part as TimeUnit;
+            dimension = 'time' as T;
+        } else if (otherDimensions.includes(part as T)) {
+            dimension = part as T;
+        } else {
+            throw new Error(`Invalid group-by: ${part}. Use a comma-separated list of ${allowed}.`);
+        }
+        if (!selected.includes(dimension)) {
+            selected.push(dimension);
+        }
+    }
+    if (selected.length === 0) {
+        throw new Error(`Missing value for --group-by. Use a comma-separated list of ${allowed}.`);
+    }
+    return { dimensions: selected, unit };
+}
+
+// Status of a report row whose time bucket matches a daily/monthly budget period
+function getRowBudgetStatus(evaluation: BudgetEvaluation | null, options: UsageReportOptions, dimensions: string[]): BudgetStatus | null {
+    const timeIndex = options.groupBy.indexOf('time');
+    if (!evaluation || timeIndex === -1) return null;
+
+    const scope: BudgetScope | null = options.unit === 'day' ? 'daily' : (options.unit === 'month' ? 'monthly' : null);
+    const violation = evaluation.violations.find(candidate =>
+        candidate.scope === scope && candidate.period === dimensions[timeIndex]
+    );
+    return violation ? violation.status : null;
+}
+
+// Aggregate, sort and limit the rows of the usage report and check the budget
+export function buildUsageReport(sessions: SessionRecord[], options: UsageReportOptions): UsageReport {
+    const { unit, groupBy, filters } = options;
+    const billing = options.billing || DEFAULT_BILLING;
+    // Premium-only reports rank by overage cost, then by premium requests
+    const compareCost = (a: DailyStats, b: DailyStats) => billing.mode === 'premium'
+        ? b.premiumCost - a.premiumCost || b.premiumRequests - a.premiumRequests
+        : b.cost - a.cost;
+    // Fill gaps if not ranking by cost (show all dates in range)
+    const { totals, rows } = aggregate(sessions, { unit, groupBy, fillGaps: !options.rank, since: filters.since, until: filters.until });
+
+    let sortedRows = [...rows];
+    const timeIndex = groupBy.indexOf('time');
+    if (options.rank || timeIndex === -1) {
+        sortedRows.sort((a, b) => compareCost(a.stats, b.stats));
+    } else {
+        // Newest period first, most expensive group first within a period
+        sortedRows.sort((a, b) => {
+            const timeA = a.dimensions[timeIndex];
+            const timeB = b.dimensions[timeIndex];
+            if (timeA !== timeB) return timeA < timeB ? 1 : -1;
+            return compareCost(a.stats, b.stats);
+        });
+    }
+
+    if (options.limit !== undefined && options.limit !== Infinity) {
+        sortedRows = sortedRows.slice(0, options.limit);
+    }
+
+    const budgetEvaluation = options.budget ? evaluateBudgets(sessions, options.budget) : null;
+    return {
+        generatedAt: new Date(),
+        unit,
+        dimensions: groupBy,
+        filters,
+        billing,
+        totals,
+        rows: sortedRows.map(row => ({
+            ...row,
+            budgetStatus: getRowBudgetStatus(budgetEvaluation, options, row.dimensions)
+        })),
+        pricingKeys: [...new Set(sessions.flatMap(session => session.models.map(part => part.pricingKey)))].sort(),
+        budget: budgetEvaluation
+    };
+}
+
+export function formatStatValue(stats: DailyStats, field: StatField): string {
+    if (field === 'cost' || field === 'premiumCost') return `$${stats[field].toFixed(4)}`;
+    // Multipliers such as 0.33 make premium requests fractional
+    if (field === 'premiumRequests') return stats[field].toLocaleString('en-US', { maximumFractionDigits: 2 });
+    return stats[field].toLocaleString('en-US');
+}
+
+// Per-source counts, tokens, token share (0-1) and cost of a bucket
+export function toJsonSources(stats: DailyStats) {
+    const tokens = stats.input + stats.output;
+    return Object.fromEntries(SESSION_DATA_SOURCES.map(source => {
+        const sourceStats = stats.sources[source];
+        return [source, {
+            sessions: sourceStats.sessions,
+            tokens: sourceStats.tokens,
+            tokenShare: tokens > 0 ? Number((sourceStats.tokens / tokens).toFixed(4)) : 0,
+            cost: Number(sourceStats.cost.toFixed(4))
+        }];
+    }));
+}
+
+// Premium request fields are only added when the billing mode shows them
+export function toJsonStats(stats: DailyStats, mode: BillingMode = 'tokens') {
+    return {
+        sessions: stats.sessions,
+        input: stats.input,
+        output: stats.output,
+        cachedInput: stats.cachedInput,
+        cacheWrite: stats.cacheWrite,
+        reasoning: stats.reasoning,
+        cost: Number(stats.cost.toFixed(4)),
+        ...(mode !== 'tokens' ? {
+            requests: stats.requests,
+            premiumRequests: Number(stats.premiumRequests.toFixed(2)),
+            premiumCost: Number(stats.premiumCost.toFixed(4))
+        } : {}),
+        sources: toJsonSources(stats)
+    };
+}
+
+// One row of the `--json` array and of the envelope's `rows`
+export function toJsonRow(report: UsageReport, row: UsageReportRow): Record<string, unknown> {
+    return {
+        ...Object.fromEntries(report.dimensions.map((dimension, index) => [
+            GROUP_DIMENSION_LABELS[dimension].field,
+            row.dimensions[index]
+        ])),
+        ...toJsonStats(row.stats, report.billing.mode),
+        ...(report.budget ? { budget: row.budgetStatus } : {})
+    };
+}
+
+// Versioned envelope of `--format json`, with the pricing entries applied to the report
+export function toJsonReport(report: UsageReport, pricingTable: PricingTable) {
+    const pricing = Object.fromEntries(report.pricingKeys.map(key => {
+        const { source, premiumMultiplier, ...entry } = pricingTable[key];
+        return [key, {
+            ...entry,
+            ...(report.billing.mode !== 'tokens' ? { premiumMultiplier: getPremiumMultiplier(pricingTable[key]) } : {}),
+            source
+        }];
+    }));
+
+    return {
+        version: REPORT_JSON_VERSION,
+        generatedAt: report.generatedAt.toISOString(),
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        unit: report.unit,
+        groupBy: report.dimensions.map(dimension => dimension === 'time' ? report.unit : dimension),
+        filters: {
+            since: report.filters.since ? report.filters.since.toISOString() : null,
+            until: report.filters.until ? report.filters.until.toISOString() : null,
+            repo: report.filters.repo,
+            source: report.filters.source
+        },
+        totals: toJsonStats(report.totals, report.billing.mode),
+        pricing,
+        ...(report.billing.mode !== 'tokens' ? { billing: report.billing } : {}),
+        budget: report.budget ? {
+            ...report.budget.config,
+            violations: report.budget.violations.map(violation => ({ ...violation, cost: Number(violation.cost.toFixed(4)) }))
+        } : null,
+        rows: report.rows.map(row => toJsonRow(report, row))
+    };
+}
+
+// Descending by the sort key
+export function sortSessions(sessions: SessionRecord[], sort: SessionSortKey): SessionRecord[] {
+    const sortValue = (session: SessionRecord): number => {
+        switch (sort) {
+            case 'cost':
+                return session.cost;
+            case 'tokens':
+                return session.inputTokens + session.outputTokens;
+            case 'input':
+                return session.inputTokens;
+            case 'output':
+                return session.outputTokens;
+            case 'date':
+                return session.date.getTime();
+        }
+    };
+    return [...sessions].sort((a, b) => sortValue(b) - sortValue(a));
+}
+
+export function toJsonSession(session: SessionRecord, mode: BillingMode = 'tokens') {
+    return {
+        sessionId: session.sessionId,
+        startTime: session.date.toISOString(),
+        model: session.model,
+        pricingKey: session.pricingKey,
+        repository: session.context.repository || null,
+        branch: session.context.branch || null,
+        cwd: session.context.cwd || null,
+        source: session.dataSource,
+        machine: session.machine,
+        assistant: session.assistant,
+        input: session.inputTokens,
+        output: session.outputTokens,
+        cachedInput: session.cachedInputTokens,
+        cacheWrite: session.cacheWriteTokens,
+        reasoning: session.reasoningTokens,
+        cost: Number(session.cost.toFixed(4)),
+        ...(mode !== 'tokens' ? {
+            requests: session.requests,
+            premiumRequests: Number(session.premiumRequests.toFixed(2)),
+            premiumCost: Number(session.premiumCost.toFixed(4))
+        } : {})
+    };
+}
+
+// Time-first groupings read chronologically unless ranked; otherwise costliest first
+export function sortToolRows(rows: ToolAggregateRow[], groupBy: ToolGroupDimension[], rank: boolean): ToolAggregateRow[] {
+    const sortByTime = groupBy[0] === 'time' && !rank;
+    return [...rows].sort((a, b) => {
+        if (sortByTime) {
+            const timeOrder = b.dimensions[0].localeCompare(a.dimensions[0]);
+            if (timeOrder !== 0) return timeOrder;
+        }
+        return b.stats.cost - a.stats.cost || b.stats.calls - a.stats.calls;
+    });
+}
+
+export function toJsonToolRow(groupBy: ToolGroupDimension[], { dimensions, stats }: ToolAggregateRow) {
+    return {
+        ...Object.fromEntries(groupBy.map((dimension, index) => [
+            TOOL_GROUP_DIMENSION_LABELS[dimension].field,
+            dimensions[index]
+        ])),
+        calls: stats.calls,
+        succeeded: stats.succeeded,
+        failed: stats.failed,
+        pending: stats.pending,
+        durationMs: stats.durationMs,
+        avgDurationMs: stats.timedCalls > 0 ? Math.round(stats.durationMs / stats.timedCalls) : null,
+        resultTokens: stats.resultTokens,
+        cost: Number(stats.cost.toFixed(4))
+    };
+}
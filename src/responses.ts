@@ -0,0 +1,107 @@
+import type { PercentileStats, PricingTable, ResponseRecord, ResponseStats, SessionAnalysis, UserMessageRecord } from './types.js';
+import { calculateCost, resolvePricingKey } from './pricing.js';
+
+// A user message logged this long after a response still counts as its prompt,
+// since the usage log and events.jsonl are written by different processes
+const PROMPT_MATCH_SKEW_MS = 5000;
+
+// The latest user message at or before the response, i.e. the turn that prompted it
+function findPrompt(messages: { time: number; message: UserMessageRecord }[], timestamp: Date | null): UserMessageRecord | null {
+    if (!timestamp) return null;
+    const limit = timestamp.getTime() + PROMPT_MATCH_SKEW_MS;
+    let prompt: UserMessageRecord | null = null;
+    for (const { time, message } of messages) {
+        if (time > limit) break;
+        prompt = message;
+    }
+    return prompt;
+}
+
+// Priced usage-log responses of the analyzed (filtered) sessions, each linked to the
+// user message that prompted it. Sessions estimated from session-state logs have no responses.
+export function collectResponses(analysis: SessionAnalysis, pricingTable: PricingTable): ResponseRecord[] {
+    const records: ResponseRecord[] = [];
+    for (const session of analysis.sessions) {
+        const logUsage = session.dataSource === 'usage-log' ? analysis.usageFromLogsBySession.get(session.sessionId) : undefined;
+        if (!logUsage) continue;
+
+        const messages = (analysis.userMessagesBySession.get(session.sessionId) || [])
+            .filter(message => message.timestamp && !Number.isNaN(new Date(message.timestamp).getTime()))
+            .map(message => ({ time: new Date(message.timestamp!).getTime(), message }))
+            .sort((a, b) => a.time - b.time);
+
+        for (const response of logUsage.responses) {
+            const model = response.model || logUsage.model;
+            const pricingKey = resolvePricingKey(model, pricingTable);
+            records.push({
+                sessionId: session.sessionId,
+                responseId: response.responseId,
+                timestamp: response.timestamp,
+                model,
+                pricingKey,
+                cost: calculateCost(pricingTable[pricingKey], response),
+                inputTokens: response.inputTokens,
+                outputTokens: response.outputTokens,
+                cachedInputTokens: response.cachedInputTokens,
+                cacheWriteTokens: response.cacheWriteTokens,
+                reasoningTokens: response.reasoningTokens,
+                repository: session.context.repository || null,
+                machine: session.machine,
+                prompt: findPrompt(messages, response.timestamp)
+            });
+        }
+    }
+    return records;
+}
+
+// Nearest-rank percentiles; all zero for no values
+function getPercentiles(values: number[]): PercentileStats {
+    if (values.length === 0) return { median: 0, p95: 0, max: 0 };
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (percentile: number) => sorted[Math.max(0, Math.ceil(percentile / 100 * sorted.length) - 1)];
+    return { median: rank(50), p95: rank(95), max: sorted[sorted.length - 1] };
+}
+
+export function summarizeResponses(records: ResponseRecord[]): ResponseStats {
+    return {
+        responses: records.length,
+        input: getPercentiles(records.map(record => record.inputTokens)),
+        output: getPercentiles(records.map(record => record.outputTokens)),
+        tokens: getPercentiles(records.map(record => record.inputTokens + record.outputTokens)),
+        cost: getPercentiles(records.map(record => record.cost))
+    };
+}
+
+// Most expensive first; ties go to the larger response
+export function rankResponses(records: ResponseRecord[]): ResponseRecord[] {
+    return [...records].sort((a, b) =>
+        b.cost - a.cost || (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens)
+    );
+}
+
+export function toJsonResponseStats(stats: ResponseStats) {
+    const { median, p95, max } = stats.cost;
+    return {
+        ...stats,
+        cost: { median: Number(median.toFixed(4)), p95: Number(p95.toFixed(4)), max: Number(max.toFixed(4)) }
+    };
+}
+
+export function toJsonResponse(record: ResponseRecord) {
+    return {
+        sessionId: record.sessionId,
+        responseId: record.responseId,
+        timestamp: record.timestamp ? record.timestamp.toISOString() : null,
+        model: record.model,
+        pricingKey: record.pricingKey,
+        repository: record.repository,
+        machine: record.machine,
+        input: record.inputTokens,
+        output: record.outputTokens,
+        cachedInput: record.cachedInputTokens,
+        cacheWrite: record.cacheWriteTokens,
+        reasoning: record.reasoningTokens,
+        cost: Number(record.cost.toFixed(4)),
+        prompt: record.prompt
+    };
+}
@@ -0,0 +1,424 @@
+import http from 'node:http';
+import type {
+    DailyStats,
+    ReportFilters,
+    SessionAnalysis,
+    SessionRecord,
+    SessionSortKey,
+    SourceFilter,
+    StatField,
+    TimeUnit,
+    UsageReport,
+    UsageServerOptions
+} from './types.js';
+import { aggregateToolCalls, filterSessions, splitSessionByModel, UNKNOWN_GROUP_VALUE } from './analyze.js';
+import { parseDateRange, TIME_UNITS } from './dates.js';
+import {
+    buildUsageReport,
+    DATA_SOURCE_FILTERS,
+    DEFAULT_BILLING,
+    formatStatValue,
+    getReportStatColumns,
+    GROUP_DIMENSION_LABELS,
+    GROUP_DIMENSIONS,
+    parseGroupBy,
+    parseSourceFilter,
+    SESSION_SORT_KEYS,
+    sortSessions,
+    sortToolRows,
+    TOOL_GROUP_DIMENSIONS,
+    toJsonReport,
+    toJsonSession,
+    toJsonToolRow
+} from './report.js';
+import { ASSISTANTS } from './sources.js';
+import { addSessionToStats, createEmptyStats, SESSION_DATA_SOURCES } from './tokens.js';
+import { escapeHtml } from './util.js';
+
+// The dashboard reloads itself; the data behind it is refreshed when the logs change
+const DASHBOARD_REFRESH_SECONDS = 30;
+const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// A query-string value that cannot be used, answered with 400
+class QueryError extends Error {}
+// No analysis to serve yet, answered with 503
+class UnavailableError extends Error {}
+
+interface RequestContext {
+    params: URLSearchParams;
+    options: UsageServerOptions;
+    analysis: SessionAnalysis;
+    refreshedAt: Date;
+    // Message of a refresh that failed after this analysis
+    refreshError: string | null;
+}
+
+interface FilteredSessions {
+    filters: ReportFilters;
+    sessions: SessionRecord[];
+}
+
+function readDate(params: URLSearchParams, name: 'since' | 'until'): Date | null {
+    const value = params.get(name);
+    if (value === null) return null;
+    const range = parseDateRange(value);
+    if (!range) {
+        throw new QueryError(`Invalid ${name}: ${value}. Use YYYY-MM-DD, an ISO timestamp, <n>h/<n>d/<n>w, today, yesterday, this-month or last-month.`);
+    }
+    return name === 'since' ? range.start : range.end;
+}
+
+// since, until, repo and source narrow the filters given on the command line
+function readFilters(params: URLSearchParams, base: ReportFilters, sessions: SessionRecord[]): FilteredSessions {
+    const sinceParam = readDate(params, 'since');
+    const untilParam = readDate(params, 'until');
+    const since = sinceParam && (!base.since || sinceParam > base.since) ? sinceParam : base.since;
+    const until = untilParam && (!base.until || untilParam < base.until) ? untilParam : base.until;
+    if (since && until && since >= until) {
+        throw new QueryError('Invalid date range: since must be earlier than until.');
+    }
+
+    const repoParam = params.get('repo');
+    const repos = repoParam ? repoParam.split(',').map(value => value.trim().toLowerCase()).filter(Boolean) : null;
+    const repo = repos && base.repo ? repos.filter(value => base.repo!.includes(value)) : (repos || base.repo);
+
+    const source = (params.get('source') || base.source).toLowerCase();
+    let sourceFilter: SourceFilter;
+    try {
+        sourceFilter = parseSourceFilter(source);
+    } catch (e) {
+        throw new QueryError((e as Error).message);
+    }
+
+    const filters: ReportFilters = { since, until, repo, source };
+    return {
+        filters,
+        sessions: filterSessions(sessions, { since, until, repos: repo, ...sourceFilter })
+    };
+}
+
+function readUnit(params: URLSearchParams, defaultUnit: TimeUnit): TimeUnit {
+    const unit = (params.get('unit') || defaultUnit).toLowerCase();
+    if (!TIME_UNITS.includes(unit as TimeUnit)) {
+        throw new QueryError(`Invalid unit: ${unit}. Use one of ${TIME_UNITS.join(', ')}.`);
+    }
+    return unit as TimeUnit;
+}
+
+function readLimit(params: URLSearchParams): number {
+    const value = params.get('limit');
+    if (value === null) return Infinity;
+    const limit = Number(value);
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw new QueryError(`Invalid limit: ${value}. Must be a positive integer.`);
+    }
+    return limit;
+}
+
+// `rank` without a value, or with anything but false/0, ranks by cost
+function readRank(params: URLSearchParams): boolean {
+    const value = params.get('rank');
+    return value !== null && value !== 'false' && value !== '0';
+}
+
+function readGroupBy<T extends string>(params: URLSearchParams, parse: (value: string) => { dimensions: T[]; unit: TimeUnit | null }, defaults: T[]) {
+    const value = params.get('group-by');
+    try {
+        return value === null ? { dimensions: defaults, unit: null } : parse(value);
+    } catch (e) {
+        throw new QueryError((e as Error).message);
+    }
+}
+
+function buildRequestReport(context: RequestContext): UsageReport {
+    const { params, options, analysis } = context;
+    const { filters, sessions } = readFilters(params, options.filters, analysis.sessions);
+    const groupBy = readGroupBy(params, value => parseGroupBy(value, GROUP_DIMENSIONS), options.groupBy);
+    return buildUsageReport(sessions, {
+        unit: groupBy.unit || readUnit(params, options.unit),
+        groupBy: groupBy.dimensions,
+        rank: readRank(params),
+        limit: readLimit(params),
+        filters,
+        budget: options.budget,
+        billing: options.billing
+    });
+}
+
+// GET /api/usage: the `--format json` envelope of the usage report
+function handleUsage(context: RequestContext) {
+    return toJsonReport(buildRequestReport(context), context.options.pricingTable);
+}
+
+// GET /api/sessions: the `sessions --json` list
+function handleSessions(context: RequestContext) {
+    const { params, options, analysis } = context;
+    const { sessions } = readFilters(params, options.filters, analysis.sessions);
+    const sort = (params.get('sort') || (readRank(params) ? 'cost' : 'date')).toLowerCase();
+    if (!SESSION_SORT_KEYS.includes(sort as SessionSortKey)) {
+        throw new QueryError(`Invalid sort: ${sort}. Use one of ${SESSION_SORT_KEYS.join(', ')}.`);
+    }
+    const { mode } = options.billing || DEFAULT_BILLING;
+    return sortSessions(sessions, sort as SessionSortKey).slice(0, readLimit(params)).map(session => toJsonSession(session, mode));
+}
+
+// GET /api/tools: the `tools --json` rows
+function handleTools(context: RequestContext) {
+    const { params, options, analysis } = context;
+    const { filters } = readFilters(params, options.filters, analysis.sessions);
+    const groupBy = readGroupBy(params, value => parseGroupBy(value, TOOL_GROUP_DIMENSIONS), ['tool']);
+    const { rows } = aggregateToolCalls(analysis, {
+        unit: groupBy.unit || readUnit(params, options.unit),
+        groupBy: groupBy.dimensions,
+        since: filters.since,
+        until: filters.until,
+        repos: filters.repo,
+        pricingTable: options.pricingTable
+    });
+    return sortToolRows(rows, groupBy.dimensions, readRank(params))
+        .slice(0, readLimit(params))
+        .map(row => toJsonToolRow(groupBy.dimensions, row));
+}
+
+function formatLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+// GET /metrics: totals of the analyzed sessions in the Prometheus text format, labelled by
+// model, repository, data source, machine and assistant; a session that used several models
+// counts in the series of each, with its share. They are gauges, as the --since,
+// --until and --source filters narrow the sessions, and a relative window such as
+// --since 7d is resolved again on every refresh, so old sessions drop out.
+function renderMetrics(context: RequestContext): string {
+    const { options, analysis, refreshedAt } = context;
+    const { mode } = options.billing || DEFAULT_BILLING;
+    const series = new Map<string, { labels: string; stats: DailyStats }>();
+    for (const session of analysis.sessions.flatMap(splitSessionByModel)) {
+        const labels = [
+            `model="${formatLabelValue(session.pricingKey)}"`,
+            `repo="${formatLabelValue(session.context.repository || UNKNOWN_GROUP_VALUE)}"`,
+            `source="${session.dataSource}"`,
+            `machine="${formatLabelValue(session.machine)}"`,
+            `assistant="${session.assistant}"`
+        ].join(',');
+        let entry = series.get(labels);
+        if (!entry) {
+            entry = { labels, stats: createEmptyStats() };
+            series.set(labels, entry);
+        }
+        addSessionToStats(entry.stats, session);
+    }
+
+    const entries = [...series.values()].sort((a, b) => a.labels.localeCompare(b.labels));
+    const tokenTypes: [string, StatField][] = [
+        ['input', 'input'],
+        ['output', 'output'],
+        ['cached_input', 'cachedInput'],
+        ['cache_write', 'cacheWrite'],
+        ['reasoning', 'reasoning']
+    ];
+    const lines = [
+        '# HELP cpusage_sessions Copilot sessions in the analyzed logs.',
+        '# TYPE cpusage_sessions gauge',
+        ...entries.map(({ labels, stats }) => `cpusage_sessions{${labels}} ${stats.sessions}`),
+        '# HELP cpusage_tokens Tokens used; cached_input and cache_write are part of input, reasoning is part of output.',
+        '# TYPE cpusage_tokens gauge',
+        ...entries.flatMap(({ labels, stats }) => tokenTypes.map(([type, field]) => `cpusage_tokens{${labels},type="${type}"} ${stats[field]}`)),
+        '# HELP cpusage_cost_usd Estimated cost in USD.',
+        '# TYPE cpusage_cost_usd gauge',
+        ...entries.map(({ labels, stats }) => `cpusage_cost_usd{${labels}} ${Number(stats.cost.toFixed(6))}`),
+        ...(mode !== 'tokens' ? [
+            '# HELP cpusage_premium_requests Premium requests after model multipliers.',
+            '# TYPE cpusage_premium_requests gauge',
+            ...entries.map(({ labels, stats }) => `cpusage_premium_requests{${labels}} ${Number(stats.premiumRequests.toFixed(2))}`),
+            '# HELP cpusage_premium_cost_usd Estimated cost in USD of premium requests beyond the monthly allowance.',
+            '# TYPE cpusage_premium_cost_usd gauge',
+            ...entries.map(({ labels, stats }) => `cpusage_premium_cost_usd{${labels}} ${Number(stats.premiumCost.toFixed(6))}`)
+        ] : []),
+        '# HELP cpusage_last_refresh_timestamp_seconds Time the logs were last analyzed.',
+        '# TYPE cpusage_last_refresh_timestamp_seconds gauge',
+        `cpusage_last_refresh_timestamp_seconds ${Math.floor(refreshedAt.getTime() / 1000)}`
+    ];
+    return `${lines.join('\n')}\n`;
+}
+
+function renderStatsTable(report: UsageReport): string {
+    const statColumns = getReportStatColumns(report.billing.mode);
+    const headerCells = [
+        ...report.dimensions.map(dimension => `<th>${escapeHtml(GROUP_DIMENSION_LABELS[dimension].header)}</th>`),
+        ...statColumns.map(column => `<th class="num">${escapeHtml(column.header)}</th>`)
+    ];
+    const bodyRows = report.rows.map(({ dimensions, stats }) => {
+        const cells = [
+            ...dimensions.map(value => `<td>${escapeHtml(value)}</td>`),
+            ...statColumns.map(column => `<td class="num">${escapeHtml(formatStatValue(stats, column.field))}</td>`)
+        ];
+        return `        <tr>${cells.join('')}</tr>`;
+    });
+    return `    <table>
+      <thead><tr>${headerCells.join('')}</tr></thead>
+      <tbody>
+${bodyRows.join('\n')}
+      </tbody>
+    </table>`;
+}
+
+// Cost per time bucket, oldest on the left
+function renderCostChart(report: UsageReport): string {
+    const rows = [...report.rows].reverse();
+    if (rows.length === 0) return '    <p>No sessions in the selected range.</p>';
+    const maxCost = Math.max(0, ...rows.map(row => row.stats.cost));
+    const bars = rows.map(({ dimensions, stats }, index) => {
+        const height = maxCost > 0 ? stats.cost / maxCost * 100 : 0;
+        return `      <rect x="${index * 10 + 1}" y="${(100 - height).toFixed(2)}" width="8" height="${height.toFixed(2)}">` +
+            `<title>${escapeHtml(`${dimensions[0]}: $${stats.cost.toFixed(4)}, ${(stats.input + stats.output).toLocaleString('en-US')} tokens`)}</title></rect>`;
+    });
+    return `    <svg class="chart" viewBox="0 0 ${rows.length * 10} 100" preserveAspectRatio="none" role="img" aria-label="Estimated cost per ${report.unit}">
+${bars.join('\n')}
+    </svg>
+    <div class="axis"><span>${escapeHtml(rows[0].dimensions[0])}</span><span>max $${maxCost.toFixed(4)}</span><span>${escapeHtml(rows[rows.length - 1].dimensions[0])}</span></div>`;
+}
+
+// GET /: totals, cost over time and per-model and per-repository tables
+function renderDashboard(context: RequestContext): string {
+    const { params, options, analysis, refreshedAt, refreshError } = context;
+    const { filters, sessions } = readFilters(params, options.filters, analysis.sessions);
+    const unit = readUnit(params, options.unit);
+    const { billing } = options;
+    const timeReport = buildUsageReport(sessions, { unit, groupBy: ['time'], rank: false, filters, billing });
+    const modelReport = buildUsageReport(sessions, { unit, groupBy: ['model'], rank: true, filters, billing });
+    const repoReport = buildUsageReport(sessions, { unit, groupBy: ['repo'], rank: true, filters, billing });
+    const { totals } = timeReport;
+    const { mode } = timeReport.billing;
+
+    const summary = [
+        ['Total Sessions', totals.sessions.toLocaleString('en-US')],
+        ['Total Input Tokens', totals.input.toLocaleString('en-US')],
+        ['Total Output Tokens', totals.output.toLocaleString('en-US')],
+        ...(mode !== 'premium' ? [['Estimated Total Cost', `$${totals.cost.toFixed(4)}`]] : []),
+        ...(mode !== 'tokens' ? [
+            ['Premium Requests', formatStatValue(totals, 'premiumRequests')],
+            ['Premium Overage Cost', formatStatValue(totals, 'premiumCost')]
+        ] : []),
+        ...SESSION_DATA_SOURCES.map(source => [`${source} sessions`, totals.sources[source].sessions.toLocaleString('en-US')])
+    ];
+    const query = params.toString();
+    const option = (value: string, selected: string) => `<option${value === selected ? ' selected' : ''}>${escapeHtml(value)}</option>`;
+    // A combined value such as 'gemini-cli,usage-only' is kept selectable
+    const sourceOptions = [...Object.keys(DATA_SOURCE_FILTERS), ...ASSISTANTS];
+    if (!sourceOptions.includes(filters.source)) sourceOptions.push(filters.source);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta http-equiv="refresh" content="${DASHBOARD_REFRESH_SECONDS}">
+  <title>GitHub Copilot Usage Dashboard</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem; color: #1f2328; }
+    h1 { font-size: 1.5rem; }
+    h2 { font-size: 1.1rem; margin-top: 2rem; }
+    form { display: flex; gap: 0.5rem; flex-wrap: wrap; align-items: end; }
+    label { font-size: 0.8rem; color: #59636e; display: flex; flex-direction: column; }
+    .summary { display: flex; flex-wrap: wrap; gap: 1rem; margin: 1rem 0; }
+    .card { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem 1rem; min-width: 10rem; }
+    .card .label { font-size: 0.8rem; color: #59636e; }
+    .card .value { font-size: 1.2rem; font-weight: 600; }
+    .chart { width: 100%; height: 12rem; background: #f6f8fa; }
+    .chart rect { fill: #2da44e; }
+    .axis { display: flex; justify-content: space-between; font-size: 0.8rem; color: #59636e; }
+    table { border-collapse: collapse; margin-top: 0.5rem; }
+    th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; }
+    th { background: #f6f8fa; text-align: left; }
+    .num { text-align: right; font-variant-numeric: tabular-nums; }
+    .error { color: #d1242f; }
+  </style>
+</head>
+<body>
+  <h1>GitHub Copilot Usage Dashboard</h1>
+  <p>Logs analyzed ${escapeHtml(refreshedAt.toISOString())}, ${escapeHtml(Intl.DateTimeFormat().resolvedOptions().timeZone)}</p>
+${refreshError ? `  <p class="error">The last refresh failed, so these figures may be out of date: ${escapeHtml(refreshError)}</p>\n` : ''}  <form method="get" action="/">
+    <label>Since <input name="since" value="${escapeHtml(params.get('since') || '')}" placeholder="30d"></label>
+    <label>Until <input name="until" value="${escapeHtml(params.get('until') || '')}"></label>
+    <label>Repository <input name="repo" value="${escapeHtml(params.get('repo') || '')}" placeholder="owner/name"></label>
+    <label>Source <select name="source">${sourceOptions.map(value => option(value, filters.source)).join('')}</select></label>
+    <label>Unit <select name="unit">${TIME_UNITS.map(value => option(value, unit)).join('')}</select></label>
+    <button type="submit">Apply</button>
+  </form>
+  <div class="summary">
+${summary.map(([label, value]) => `    <div class="card"><div class="label">${escapeHtml(label)}</div><div class="value">${escapeHtml(value)}</div></div>`).join('\n')}
+  </div>
+  <h2>Estimated Cost by ${escapeHtml(unit)}</h2>
+${renderCostChart(timeReport)}
+  <h2>By Model</h2>
+${renderStatsTable(modelReport)}
+  <h2>By Repository</h2>
+${renderStatsTable(repoReport)}
+  <p>JSON: <a href="/api/usage?${escapeHtml(query)}">/api/usage</a>, <a href="/api/sessions?${escapeHtml(query)}">/api/sessions</a>, <a href="/api/tools?${escapeHtml(query)}">/api/tools</a>. Prometheus: <a href="/metrics">/metrics</a></p>
+</body>
+</html>
+`;
+}
+
+function send(res: http.ServerResponse, status: number, contentType: string, body: string) {
+    res.writeHead(status, { 'Content-Type': contentType, 'Cache-Control': 'no-store' });
+    res.end(body);
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown) {
+    send(res, status, 'application/json; charset=utf-8', `${JSON.stringify(data, null, 2)}\n`);
+}
+
+// Serve the dashboard, the JSON reports and /metrics from the latest analysis.
+// Resolves once the server is listening.
+export function startUsageServer(options: UsageServerOptions): Promise<http.Server> {
+    const server = http.createServer((req, res) => {
+        if (req.method !== 'GET' && req.method !== 'HEAD') {
+            res.setHeader('Allow', 'GET, HEAD');
+            sendJson(res, 405, { error: `Method not allowed: ${req.method}` });
+            return;
+        }
+
+        const url = new URL(req.url || '/', 'http://localhost');
+        try {
+            const latest = options.getAnalysis();
+            const refreshError = options.getRefreshError ? options.getRefreshError() : null;
+            if (!latest) {
+                throw new UnavailableError(refreshError
+                    ? `The logs could not be analyzed: ${refreshError}`
+                    : 'The logs have not been analyzed yet.');
+            }
+            const context: RequestContext = { params: url.searchParams, options, analysis: latest.analysis, refreshedAt: latest.refreshedAt, refreshError };
+            switch (url.pathname) {
+                case '/':
+                    send(res, 200, 'text/html; charset=utf-8', renderDashboard(context));
+                    break;
+                case '/api/usage':
+                    sendJson(res, 200, handleUsage(context));
+                    break;
+                case '/api/sessions':
+                    sendJson(res, 200, handleSessions(context));
+                    break;
+                case '/api/tools':
+                    sendJson(res, 200, handleTools(context));
+                    break;
+                case '/metrics':
+                    send(res, 200, PROMETHEUS_CONTENT_TYPE, renderMetrics(context));
+                    break;
+                default:
+                    sendJson(res, 404, { error: `Not found: ${url.pathname}` });
+            }
+        } catch (e) {
+            const status = e instanceof QueryError ? 400 : (e instanceof UnavailableError ? 503 : 500);
+            sendJson(res, status, { error: (e as Error).message });
+        }
+    });
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(options.port, options.host, () => {
+            server.off('error', reject);
+            resolve(server);
+        });
+    });
+}
@@ -0,0 +1,116 @@
+import fs from 'node:fs';
+import type { Assistant, SessionAnalysis, SessionDataSource, SnapshotResponse, SnapshotSession, UsageSnapshot } from './types.js';
+import { ASSISTANTS } from './sources.js';
+import { SESSION_DATA_SOURCES } from './tokens.js';
+import { TOKENIZER_MODES } from './tokenizer.js';
+import { isRecord } from './util.js';
+
+export const SNAPSHOT_FORMAT = 'cpusage-snapshot';
+// Bump when the snapshot layout changes incompatibly
+export const SNAPSHOT_VERSION = 1;
+
+const TOKEN_FIELDS = ['inputTokens', 'outputTokens', 'cachedInputTokens', 'cacheWriteTokens', 'reasoningTokens'] as const;
+
+// Per-session totals of the analyzed (filtered) sessions. Usage-log sessions keep their
+// responses so that imports can skip the ones already counted; no message text is included.
+export function createSnapshot(analysis: SessionAnalysis): UsageSnapshot {
+    const sessions: SnapshotSession[] = [...analysis.sessions]
+        .sort((a, b) => a.date.getTime() - b.date.getTime() || a.sessionId.localeCompare(b.sessionId))
+        .map(session => {
+            const usageFromLogs = session.dataSource === 'usage-log' ? analysis.usageFromLogsBySession.get(session.sessionId) : undefined;
+            return {
+                sessionId: session.sessionId,
+                startTime: session.date.toISOString(),
+                model: session.model,
+                dataSource: session.dataSource,
+                machine: session.machine,
+                assistant: session.assistant,
+                repository: session.context.repository || null,
+                branch: session.context.branch || null,
+                cwd: session.context.cwd || null,
+                inputTokens: session.inputTokens,
+                outputTokens: session.outputTokens,
+                cachedInputTokens: session.cachedInputTokens,
+                cacheWriteTokens: session.cacheWriteTokens,
+                reasoningTokens: session.reasoningTokens,
+                responses: usageFromLogs
+                    ? usageFromLogs.responses.map(response => ({
+                        responseId: response.responseId,
+                        timestamp: response.timestamp ? response.timestamp.toISOString() : null,
+                        model: response.model,
+                        inputTokens: response.inputTokens,
+                        outputTokens: response.outputTokens,
+                        cachedInputTokens: response.cachedInputTokens,
+                        cacheWriteTokens: response.cacheWriteTokens,
+                        reasoningTokens: response.reasoningTokens
+                    }))
+                    : []
+            };
+        });
+
+    return {
+        format: SNAPSHOT_FORMAT,
+        version: SNAPSHOT_VERSION,
+        exportedAt: new Date().toISOString(),
+        tokenizer: analysis.tokenizer,
+        sessions
+    };
+}
+
+// Read and validate a snapshot written by createSnapshot
+export function loadSnapshot(filePath: string): UsageSnapshot {
+    const fail = (message: string): never => {
+        throw new Error(`Invalid snapshot ${filePath}: ${message}`);
+    };
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e) {
+        return fail((e as Error).message);
+    }
+
+    if (!isRecord(parsed) || parsed.format !== SNAPSHOT_FORMAT) fail(`expected a ${SNAPSHOT_FORMAT} file`);
+    const root = parsed as Record<string, unknown>;
+    if (root.version !== SNAPSHOT_VERSION) fail(`unsupported version ${String(root.version)} (expected ${SNAPSHOT_VERSION})`);
+    if (!TOKENIZER_MODES.includes(root.tokenizer as UsageSnapshot['tokenizer'])) fail(`tokenizer must be one of ${TOKENIZER_MODES.join(', ')}`);
+    if (!Array.isArray(root.sessions)) fail('sessions must be an array');
+
+    const isCount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    const isOptionalString = (value: unknown) => value === null || typeof value === 'string';
+    const isValidTime = (value: unknown) => typeof value === 'string' && !Number.isNaN(new Date(value).getTime());
+
+    (root.sessions as unknown[]).forEach((session, index) => {
+        const where = `sessions[${index}]`;
+        if (!isRecord(session)) return fail(`${where} must be an object`);
+        if (typeof session.sessionId !== 'string' || !session.sessionId) fail(`${where}.sessionId must be a string`);
+        if (!isValidTime(session.startTime)) fail(`${where}.startTime must be an ISO timestamp`);
+        if (typeof session.model !== 'string') fail(`${where}.model must be a string`);
+        if (!SESSION_DATA_SOURCES.includes(session.dataSource as SessionDataSource)) fail(`${where}.dataSource must be one of ${SESSION_DATA_SOURCES.join(', ')}`);
+        if (typeof session.machine !== 'string' || !session.machine) fail(`${where}.machine must be a string`);
+        if (session.assistant !== undefined && !ASSISTANTS.includes(session.assistant as Assistant)) fail(`${where}.assistant must be one of ${ASSISTANTS.join(', ')}`);
+        for (const field of ['repository', 'branch', 'cwd']) {
+            if (!isOptionalString(session[field])) fail(`${where}.${field} must be a string or null`);
+        }
+        for (const field of TOKEN_FIELDS) {
+            if (!isCount(session[field])) fail(`${where}.${field} must be a non-negative number`);
+        }
+        if (!Array.isArray(session.responses)) fail(`${where}.responses must be an array`);
+        (session.responses as unknown[]).forEach((response, responseIndex) => {
+            const responseWhere = `${where}.responses[${responseIndex}]`;
+            if (!isRecord(response)) return fail(`${responseWhere} must be an object`);
+            if (!isOptionalString(response.responseId) || !isOptionalString(response.model)) {
+                fail(`${responseWhere}.responseId and model must be strings or null`);
+            }
+            if (response.timestamp !== null && !isValidTime(response.timestamp)) fail(`${responseWhere}.timestamp must be an ISO timestamp or null`);
+            for (const field of TOKEN_FIELDS) {
+                if (!isCount(response[field])) fail(`${responseWhere}.${field} must be a non-negative number`);
+            }
+        });
+        if (session.dataSource === 'usage-log' && (session.responses as SnapshotResponse[]).length === 0) {
+            fail(`${where}.responses must not be empty for a usage-log session`);
+        }
+    });
+
+    return root as unknown as UsageSnapshot;
+}
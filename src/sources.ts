@@ -0,0 +1,55 @@
+import type { Assistant, DiscoverOptions, SourceAdapter, SourceLogs } from './types.js';
+import {
+    DEFAULT_GEMINI_DIR,
+    DEFAULT_LOG_DIR,
+    DEFAULT_VSCODE_DIR,
+    findCopilotUsageLogFiles,
+    findGeminiChatFiles,
+    findVscodeChatSessionFiles,
+    resolveLogRoots
+} from './discovery.js';
+import { parseGeminiChatFrom, parseUsageLogFrom, parseVscodeChatSessionFrom } from './parser.js';
+
+// Usage files found under each existing root
+function discoverFiles(assistant: Assistant, roots: SourceLogs['roots'], findFiles: (root: string) => string[]): SourceLogs {
+    return { assistant, roots, files: roots.flatMap(root => root.exists ? findFiles(root.path) : []) };
+}
+
+// Usage totals of ~/.copilot/logs. The session-state logs are read apart from the adapters,
+// as they only estimate the sessions the usage logs do not cover.
+export const copilotCliAdapter: SourceAdapter = {
+    assistant: 'copilot-cli',
+    premiumRequests: true,
+    discover: options => discoverFiles('copilot-cli', resolveLogRoots(options.logDirs, 'LOG_DIR', DEFAULT_LOG_DIR), findCopilotUsageLogFiles),
+    parse: (filePath, stat, resumeFrom) => parseUsageLogFrom(filePath, stat, resumeFrom)
+};
+
+// Token counts that Gemini CLI records for each model reply in its chat files
+export const geminiCliAdapter: SourceAdapter = {
+    assistant: 'gemini-cli',
+    premiumRequests: false,
+    discover: options => discoverFiles('gemini-cli', resolveLogRoots(options.geminiDirs, 'GEMINI_DIR', DEFAULT_GEMINI_DIR), findGeminiChatFiles),
+    parse: (filePath, stat) => parseGeminiChatFrom(filePath, stat)
+};
+
+// Chat sessions that VS Code stores per workspace for GitHub Copilot Chat
+export const vscodeCopilotAdapter: SourceAdapter = {
+    assistant: 'vscode-copilot',
+    premiumRequests: true,
+    discover: options => discoverFiles('vscode-copilot', resolveLogRoots(options.vscodeDirs, 'VSCODE_DIR', DEFAULT_VSCODE_DIR), findVscodeChatSessionFiles),
+    parse: (filePath, stat, _resumeFrom, countTokens) => parseVscodeChatSessionFrom(filePath, stat, countTokens)
+};
+
+export const SOURCE_ADAPTERS: SourceAdapter[] = [copilotCliAdapter, geminiCliAdapter, vscodeCopilotAdapter];
+export const ASSISTANTS: Assistant[] = SOURCE_ADAPTERS.map(adapter => adapter.assistant);
+
+// Usage files of the given assistants (default: all), in adapter order
+export function discoverSources(options: DiscoverOptions = {}, assistants: Assistant[] | null = null): SourceLogs[] {
+    return SOURCE_ADAPTERS
+        .filter(adapter => !assistants || assistants.includes(adapter.assistant))
+        .map(adapter => adapter.discover(options));
+}
+
+export function getSourceAdapter(assistant: Assistant): SourceAdapter {
+    return SOURCE_ADAPTERS.find(adapter => adapter.assistant === assistant)!;
+}
@@ -0,0 +1,57 @@
+import { createRequire } from 'node:module';
+import type { BpeEncoding, TokenCounter, TokenizerMode } from './types.js';
+import { normalizeModelName } from './pricing.js';
+import { estimateTokensFromText } from './tokens.js';
+
+export const TOKENIZER_MODES: TokenizerMode[] = ['bpe', 'heuristic'];
+
+interface BpeEncoder {
+    encode(text: string, allowedSpecial?: string[] | 'all', disallowedSpecial?: string[] | 'all'): number[];
+}
+
+// js-tiktoken ships CommonJS builds, which load synchronously when first needed
+const requireModule = createRequire(import.meta.url);
+// Vocabularies are large, so each one is loaded on first use and kept for the process
+const encoders = new Map<BpeEncoding, BpeEncoder>();
+
+// BPE vocabulary for a model. OpenAI models use their own encoding; Claude and Gemini
+// tokenizers are not public, so cl100k_base and o200k_base approximate them.
+export function getBpeEncodingForModel(model: string): BpeEncoding {
+    const name = normalizeModelName(model);
+    if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o\d|codex)/.test(name)) return 'o200k_base';
+    if (/^(gpt-4|gpt-3\.5)/.test(name)) return 'cl100k_base';
+    if (name.startsWith('claude')) return 'cl100k_base';
+    return 'o200k_base';
+}
+
+function loadEncoder(encoding: BpeEncoding): BpeEncoder {
+    let encoder = encoders.get(encoding);
+    if (!encoder) {
+        const { Tiktoken } = requireModule('js-tiktoken/lite') as { Tiktoken: new (ranks: unknown) => BpeEncoder };
+        encoder = new Tiktoken(requireModule(`js-tiktoken/ranks/${encoding}`));
+        encoders.set(encoding, encoder);
+    }
+    return encoder;
+}
+
+// Check that the bundled vocabularies can be loaded
+export function isBpeAvailable(): boolean {
+    try {
+        requireModule.resolve('js-tiktoken/lite');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+export function createTokenCounter(mode: TokenizerMode): TokenCounter {
+    if (mode === 'heuristic') {
+        return text => estimateTokensFromText(text);
+    }
+
+    return (text, model) => {
+        if (!text) return 0;
+        // Special-token markers in logged text are counted as plain text
+        return loadEncoder(getBpeEncodingForModel(model)).encode(text, [], []).length;
+    };
+}
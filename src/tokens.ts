@@ -0,0 +1,59 @@
+import type { DailyStats, SessionDataSource, SessionRecord, TokenUsage } from './types.js';
+
+export const SESSION_DATA_SOURCES: SessionDataSource[] = ['usage-log', 'truncation', 'heuristic'];
+
+export function estimateTokensFromText(text: string | undefined): number {
+    if (!text) return 0;
+    // Rough heuristic: ~4 UTF-8 bytes per token.
+    return Math.ceil(Buffer.byteLength(text, 'utf8') / 4);
+}
+
+export function createEmptyUsage(): TokenUsage {
+    return { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, cacheWriteTokens: 0, reasoningTokens: 0 };
+}
+
+export function addTokenUsage(target: TokenUsage, usage: TokenUsage) {
+    target.inputTokens += usage.inputTokens;
+    target.outputTokens += usage.outputTokens;
+    target.cachedInputTokens += usage.cachedInputTokens;
+    target.cacheWriteTokens += usage.cacheWriteTokens;
+    target.reasoningTokens += usage.reasoningTokens;
+}
+
+export function createEmptyStats(): DailyStats {
+    return {
+        sessions: 0,
+        input: 0,
+        output: 0,
+        cachedInput: 0,
+        cacheWrite: 0,
+        reasoning: 0,
+        cost: 0,
+        requests: 0,
+        premiumRequests: 0,
+        premiumCost: 0,
+        sources: {
+            'usage-log': { sessions: 0, tokens: 0, cost: 0 },
+            truncation: { sessions: 0, tokens: 0, cost: 0 },
+            heuristic: { sessions: 0, tokens: 0, cost: 0 }
+        }
+    };
+}
+
+export function addSessionToStats(stats: DailyStats, session: SessionRecord) {
+    stats.sessions++;
+    stats.input += session.inputTokens;
+    stats.output += session.outputTokens;
+    stats.cachedInput += session.cachedInputTokens;
+    stats.cacheWrite += session.cacheWriteTokens;
+    stats.reasoning += session.reasoningTokens;
+    stats.cost += session.cost;
+    stats.requests += session.requests;
+    stats.premiumRequests += session.premiumRequests;
+    stats.premiumCost += session.premiumCost;
+
+    const sourceStats = stats.sources[session.dataSource];
+    sourceStats.sessions++;
+    sourceStats.tokens += session.inputTokens + session.outputTokens;
+    sourceStats.cost += session.cost;
+}
@@ -0,0 +1,752 @@
+// Shared types of the cpusage library and CLI
+
+import type { Stats } from 'node:fs';
+
+export interface Pricing {
+    input: number;
+    output: number;
+    // Optional tiers; when absent, cached/cache-write input uses `input` and reasoning uses `output`
+    cachedInput?: number;
+    cacheWrite?: number;
+    reasoning?: number;
+    // Premium requests charged per Copilot request (0 for included models). Default: 1
+    premiumMultiplier?: number;
+}
+
+// How a pricing entry is matched against normalized model names:
+// 'exact' only matches the key (or an alias); 'prefix' also matches longer names
+// such as dated snapshots, with the longest matching prefix winning.
+export type PricingMatch = 'exact' | 'prefix';
+
+export interface PricingEntry extends Pricing {
+    match: PricingMatch;
+    aliases: string[];
+    // 'built-in' or the path of the pricing file that defined the entry
+    source: string;
+}
+
+export type PricingTable = Record<string, PricingEntry>;
+
+// Cost models shown in reports: token prices, Copilot premium requests, or both side by side
+export type BillingMode = 'tokens' | 'premium' | 'both';
+
+// Copilot premium-request plan: requests included per calendar month and the USD price of each one beyond
+export interface PremiumPlan {
+    allowance: number;
+    overagePrice: number;
+}
+
+export interface BillingConfig extends PremiumPlan {
+    mode: BillingMode;
+}
+
+export interface DailyStats {
+    sessions: number;
+    input: number;
+    output: number;
+    cachedInput: number;
+    cacheWrite: number;
+    reasoning: number;
+    cost: number;
+    // Billable requests, weighted premium requests and their overage cost
+    requests: number;
+    premiumRequests: number;
+    premiumCost: number;
+    // The same totals split by where the session's numbers came from
+    sources: Record<SessionDataSource, SourceStats>;
+}
+
+// Numeric fields of DailyStats
+export type StatField = Exclude<keyof DailyStats, 'sources'>;
+
+export interface SourceStats {
+    sessions: number;
+    // Input plus output tokens
+    tokens: number;
+    cost: number;
+}
+
+// Token counts for a response, session or bucket. cachedInputTokens and
+// cacheWriteTokens are part of inputTokens; reasoningTokens is part of outputTokens.
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens: number;
+    cacheWriteTokens: number;
+    reasoningTokens: number;
+}
+
+// 'bpe' counts estimated text with a BPE vocabulary; 'heuristic' assumes ~4 UTF-8 bytes per token
+export type TokenizerMode = 'bpe' | 'heuristic';
+export type BpeEncoding = 'o200k_base' | 'cl100k_base';
+
+// Counts the tokens of text sent to or produced by `model`
+export type TokenCounter = (text: string | undefined, model: string) => number;
+
+export type TimeUnit = 'day' | 'week' | 'month' | 'quarter' | 'year' | 'hour';
+export type GroupDimension = 'time' | 'model' | 'repo' | 'branch' | 'cwd' | 'machine' | 'assistant';
+
+// Coding assistant whose logs a session was read from
+export type Assistant = 'copilot-cli' | 'gemini-cli' | 'vscode-copilot';
+
+// Dimensions of the tool call report
+export type ToolGroupDimension = 'time' | 'session' | 'tool';
+
+// Workspace context from session.start or workspace.yaml
+export interface SessionContext {
+    repository?: string;
+    branch?: string;
+    cwd?: string;
+}
+
+export interface SessionUsage extends TokenUsage {
+    date: Date;
+    model: string;
+    context: SessionContext;
+    // 'heuristic' when any of the session's logs had no truncation events
+    dataSource: SessionDataSource;
+    // Machine or user label of the logs the session was read from
+    machine: string;
+    assistant: Assistant;
+}
+
+export interface LogResponseUsage extends TokenUsage {
+    responseId: string | null;
+    timestamp: Date | null;
+    model: string | null;
+}
+
+export interface LogSessionUsage extends TokenUsage {
+    model: string;
+    timestamp: Date | null;
+    responses: LogResponseUsage[];
+    // Label of the logs or snapshot the session's first response came from
+    machine: string;
+    assistant: Assistant;
+    // True when any response's tokens were estimated from its text rather than logged
+    estimated: boolean;
+}
+
+// Where a session's token totals came from, most reliable first: usage totals from
+// ~/.copilot/logs, session.truncation token sums, or estimates from message text length
+export type SessionDataSource = 'usage-log' | 'truncation' | 'heuristic';
+
+// Tokens, cost and requests of the usage-log responses of a session that ran on one model
+export interface SessionModelUsage extends TokenUsage {
+    model: string;
+    pricingKey: string;
+    cost: number;
+    requests: number;
+    premiumRequests: number;
+    // Share of the session's premiumCost, by premium requests
+    premiumCost: number;
+}
+
+// A priced session that passed the active filters
+export interface SessionRecord extends TokenUsage {
+    sessionId: string;
+    date: Date;
+    // First model of the session; `models` has the model of every response
+    model: string;
+    pricingKey: string;
+    // Sum of the costs in `models`
+    cost: number;
+    // One entry per model, in order of first use. Sessions without usage-log responses
+    // have a single entry with their totals priced as `model`.
+    models: SessionModelUsage[];
+    context: SessionContext;
+    dataSource: SessionDataSource;
+    machine: string;
+    assistant: Assistant;
+    // Distinct usage-log responses, or user.message turns when the session has no usage-log totals
+    requests: number;
+    // Requests weighted by each model's premium multiplier
+    premiumRequests: number;
+    // Share of the month's premium requests beyond the allowance, in session start order
+    premiumCost: number;
+}
+
+// One priced usage-log response of an analyzed session
+export interface ResponseRecord extends TokenUsage {
+    sessionId: string;
+    responseId: string | null;
+    timestamp: Date | null;
+    // The response's model, or the session's when the response has none
+    model: string;
+    pricingKey: string;
+    cost: number;
+    repository: string | null;
+    machine: string;
+    // The user message that prompted the response, matched by time; null when unknown
+    prompt: UserMessageRecord | null;
+}
+
+export interface PercentileStats {
+    median: number;
+    p95: number;
+    max: number;
+}
+
+// Distribution of per-response tokens and cost
+export interface ResponseStats {
+    responses: number;
+    input: PercentileStats;
+    output: PercentileStats;
+    // Input plus output
+    tokens: PercentileStats;
+    cost: PercentileStats;
+}
+
+// Accumulated state of one session-state log
+export interface SessionFileState {
+    sessionId: string;
+    startTime: string | null;
+    model: string;
+    context: SessionContext;
+    inputTokensFromMessages: number;
+    inputTokensFromTruncationSum: number;
+    outputTokens: number;
+    // Tool calls keyed by toolCallId
+    toolCalls: Record<string, ToolCallRecord>;
+    userMessages: UserMessageRecord[];
+    // Complete lines read so far, for the line numbers of issues
+    lines: number;
+    issues: ParseIssue[];
+    // All issues, including those beyond the ones kept in `issues`
+    issueCount: number;
+}
+
+// 'malformed-line': a session-state line that is not a JSON event; 'malformed-payload': a usage
+// log JSON payload that does not parse; 'unattributed-usage': usage without a session ID
+export type ParseIssueKind = 'malformed-line' | 'malformed-payload' | 'unattributed-usage';
+
+// A problem met while parsing a log file; `line` is 1-based, and 1 for whole-file JSON logs
+export interface ParseIssue {
+    line: number;
+    kind: ParseIssueKind;
+    message: string;
+}
+
+// A user.message event with the start of its text, used to label the responses it prompted
+export interface UserMessageRecord {
+    timestamp: string | null;
+    // Whitespace collapsed, at most PROMPT_PREVIEW_LENGTH characters
+    preview: string;
+}
+
+// One tool call, paired from toolRequests and tool.execution_start/complete events
+export interface ToolCallRecord {
+    toolCallId: string;
+    toolName: string;
+    startTime: string | null;
+    endTime: string | null;
+    // Null until the tool.execution_complete event is seen
+    success: boolean | null;
+    // Estimated tokens of the result fed back into the context
+    resultTokens: number;
+}
+
+export interface ToolStats {
+    calls: number;
+    succeeded: number;
+    failed: number;
+    // Calls without a tool.execution_complete event
+    pending: number;
+    durationMs: number;
+    // Calls with both timestamps, the denominator of the average duration
+    timedCalls: number;
+    resultTokens: number;
+    // Result tokens priced as input of the session's model
+    cost: number;
+}
+
+// A usage payload attributed to a session, as stored in the parse cache
+export interface UsageLogRecord extends TokenUsage {
+    sessionId: string;
+    responseId: string | null;
+    model: string | null;
+    timestamp: string | null;
+    // Set when the tokens were estimated from the message text because the log has no counts
+    estimated?: boolean;
+}
+
+export interface UsageLogFileState {
+    // Session context in effect at the resume offset
+    currentSessionId: string | null;
+    records: UsageLogRecord[];
+    lines: number;
+    issues: ParseIssue[];
+    issueCount: number;
+}
+
+export interface ParseCacheEntry<T> {
+    size: number;
+    mtimeMs: number;
+    // Bytes before this offset are reflected in `state`; parsing resumes here when the file grows
+    offset: number;
+    state: T;
+}
+
+export interface ParseCache {
+    version: number;
+    // Text token estimates depend on the tokenizer, so a cache is only reused with the same one
+    tokenizer: TokenizerMode;
+    sessionFiles: Record<string, ParseCacheEntry<SessionFileState>>;
+    usageLogFiles: Record<string, ParseCacheEntry<UsageLogFileState>>;
+}
+
+export interface ParseCacheStats {
+    hits: number;
+    resumed: number;
+    misses: number;
+}
+
+export interface ParsedFile<T> {
+    // State to cache, up to the last safe resume point
+    entry: ParseCacheEntry<T>;
+    // State including any trailing partial data
+    result: T;
+}
+
+export interface DiscoverOptions {
+    // Default: $SESSION_DIR or ~/.copilot/session-state
+    sessionDirs?: string[];
+    // Default: $LOG_DIR or ~/.copilot/logs
+    logDirs?: string[];
+    // Default: $GEMINI_DIR or ~/.gemini/tmp
+    geminiDirs?: string[];
+    // Default: $VSCODE_DIR or the workspaceStorage directory of the VS Code user data
+    vscodeDirs?: string[];
+}
+
+export interface LogRoot {
+    path: string;
+    // False when the directory does not exist
+    exists: boolean;
+}
+
+export interface DiscoveredLogs {
+    sessionDirs: LogRoot[];
+    logDirs: LogRoot[];
+    sessionFiles: string[];
+    // workspace.yaml files keyed by session ID
+    workspaceFiles: Map<string, string>;
+    usageLogFiles: string[];
+}
+
+// Usage files of one assistant found under its log roots
+export interface SourceLogs {
+    assistant: Assistant;
+    roots: LogRoot[];
+    files: string[];
+}
+
+// Reads one assistant's logs: finds its usage files, then parses each file into
+// usage records normalized to session, timestamp, model and token counts
+export interface SourceAdapter {
+    assistant: Assistant;
+    // Whether the assistant's requests draw on the Copilot premium-request allowance
+    premiumRequests: boolean;
+    discover(options: DiscoverOptions): SourceLogs;
+    // Resumes from the cached entry when the format allows it, else parses the whole file
+    parse(filePath: string, stat: Stats, resumeFrom: ParseCacheEntry<UsageLogFileState> | null, countTokens: TokenCounter): Promise<ParsedFile<UsageLogFileState>>;
+}
+
+export interface SnapshotResponse extends TokenUsage {
+    responseId: string | null;
+    timestamp: string | null;
+    model: string | null;
+}
+
+// Per-session usage without any prompt or response text
+export interface SnapshotSession extends TokenUsage {
+    sessionId: string;
+    startTime: string;
+    model: string;
+    dataSource: SessionDataSource;
+    machine: string;
+    // Missing in snapshots written before other assistants were supported: 'copilot-cli'
+    assistant?: Assistant;
+    repository: string | null;
+    branch: string | null;
+    cwd: string | null;
+    // Usage-log responses, the de-duplication keys on import; empty for estimates
+    responses: SnapshotResponse[];
+}
+
+// Portable usage snapshot written by `cpusage export`
+export interface UsageSnapshot {
+    format: 'cpusage-snapshot';
+    version: number;
+    exportedAt: string;
+    // Tokenizer of the session-state estimates
+    tokenizer: TokenizerMode;
+    sessions: SnapshotSession[];
+}
+
+export interface AnalyzeOptions extends DiscoverOptions {
+    // Default: the built-in pricing table
+    pricingTable?: PricingTable;
+    // Sessions starting in [since, until) are included
+    since?: Date | null;
+    until?: Date | null;
+    // Lower-case owner/name values; '(unknown)' matches sessions without repository info
+    repos?: string[] | null;
+    // Only keep sessions whose totals came from these sources
+    dataSources?: SessionDataSource[] | null;
+    // Only report the sessions of these assistants. Default: all of them. The logs of
+    // every assistant are still read, as they share the premium allowance
+    assistants?: Assistant[] | null;
+    // Default: 'bpe', or 'heuristic' when the BPE vocabularies are not installed
+    tokenizer?: TokenizerMode;
+    // Label of the sessions read from local logs. Default: the host name
+    machine?: string;
+    // Snapshots merged with the local logs; usage responses already seen are skipped
+    snapshots?: UsageSnapshot[];
+    // Default: true; false analyzes only the snapshots
+    readLogs?: boolean;
+    // Default: DEFAULT_PREMIUM_PLAN
+    premiumPlan?: PremiumPlan;
+    cache?: {
+        // Default: true
+        enabled?: boolean;
+        // Default: ~/.cache/cpusage/parse-cache.json (respecting XDG_CACHE_HOME)
+        file?: string;
+        // Ignore the cached state and parse every file again
+        rebuild?: boolean;
+        // State from an earlier analysis, used instead of reading the cache file
+        previous?: ParseCache | null;
+    };
+}
+
+export interface SessionAnalysis {
+    sessions: SessionRecord[];
+    // Unfiltered per-session results of both passes, for drill-down views
+    sessionStateUsage: Map<string, SessionUsage>;
+    usageFromLogsBySession: Map<string, LogSessionUsage>;
+    toolCallsBySession: Map<string, ToolCallRecord[]>;
+    // In log order; empty for sessions known only from usage logs or snapshots
+    userMessagesBySession: Map<string, UserMessageRecord[]>;
+    logs: DiscoveredLogs;
+    // Usage files of each assistant read, the Copilot CLI usage logs included
+    sources: SourceLogs[];
+    // Parse state after this pass; watch mode resumes from it
+    parseCache: ParseCache;
+    cacheStats: ParseCacheStats;
+    // Set when the cache file could not be written
+    cacheWriteError: string | null;
+    // Tokenizer used for text estimates
+    tokenizer: TokenizerMode;
+    // Problems in all parsed logs, regardless of the session filters
+    diagnostics: AnalysisDiagnostics;
+}
+
+export interface FileDiagnostics {
+    file: string;
+    type: 'session-state' | 'usage-log';
+    assistant: Assistant;
+    // At most MAX_ISSUES_PER_FILE, in line order
+    issues: ParseIssue[];
+    issueCount: number;
+}
+
+// A session-state log left out of the reports: no session.start event, or a start time that is not a date
+export interface SessionDiagnostic {
+    file: string;
+    sessionId: string;
+    problem: 'missing-start' | 'invalid-date';
+    startTime: string | null;
+    // Estimated tokens that are not counted because of it
+    tokens: number;
+}
+
+// A raw model name priced with the 'default' entry; 'default' when no model was logged
+export interface UnknownModelDiagnostic {
+    model: string;
+    sessions: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+}
+
+export interface AnalysisDiagnostics {
+    // Only files with issues
+    files: FileDiagnostics[];
+    sessions: SessionDiagnostic[];
+    unknownModels: UnknownModelDiagnostic[];
+}
+
+export interface AggregateOptions {
+    // Default: 'day'
+    unit?: TimeUnit;
+    // Default: ['time']
+    groupBy?: GroupDimension[];
+    // Add empty buckets between the first and last period when grouping only by time.
+    // The span is padded out to since/until (capped at now).
+    fillGaps?: boolean;
+    since?: Date | null;
+    until?: Date | null;
+}
+
+export interface AggregateRow {
+    // Values aligned with `groupBy`
+    dimensions: string[];
+    stats: DailyStats;
+}
+
+export interface Aggregation {
+    totals: DailyStats;
+    // In no particular order
+    rows: AggregateRow[];
+}
+
+// Session filters applied after analysis, e.g. per request by the HTTP server
+export interface SessionFilterOptions {
+    // Sessions starting in [since, until) are included
+    since?: Date | null;
+    until?: Date | null;
+    // Lower-case owner/name values; '(unknown)' matches sessions without repository info
+    repos?: string[] | null;
+    dataSources?: SessionDataSource[] | null;
+    assistants?: Assistant[] | null;
+}
+
+// --source value split into its data source filter and assistants; null keeps all
+export interface SourceFilter {
+    dataSources: SessionDataSource[] | null;
+    assistants: Assistant[] | null;
+}
+
+// Filters echoed in the JSON report
+export interface ReportFilters {
+    since: Date | null;
+    until: Date | null;
+    repo: string[] | null;
+    // Value of the --source filter, e.g. 'usage-only', 'gemini-cli' or 'all'
+    source: string;
+}
+
+export interface UsageReportOptions {
+    unit: TimeUnit;
+    groupBy: GroupDimension[];
+    // Sort by cost instead of newest period first, without filling gaps
+    rank: boolean;
+    // Default: all rows
+    limit?: number;
+    filters: ReportFilters;
+    budget?: BudgetConfig | null;
+    // Default: token prices only
+    billing?: BillingConfig;
+}
+
+export interface UsageReportRow {
+    dimensions: string[];
+    stats: DailyStats;
+    budgetStatus: BudgetStatus | null;
+}
+
+// Sorted, limited rows of the usage report with the context its renderers need
+export interface UsageReport {
+    generatedAt: Date;
+    unit: TimeUnit;
+    dimensions: GroupDimension[];
+    filters: ReportFilters;
+    billing: BillingConfig;
+    totals: DailyStats;
+    rows: UsageReportRow[];
+    // Pricing table keys applied to the reported sessions
+    pricingKeys: string[];
+    // Null when no budget is configured
+    budget: BudgetEvaluation | null;
+}
+
+export type SessionSortKey = 'date' | 'cost' | 'tokens' | 'input' | 'output';
+
+export interface UsageServerOptions {
+    host: string;
+    // 0 picks a free port
+    port: number;
+    pricingTable: PricingTable;
+    // Report defaults; query strings override unit and group-by and narrow the filters
+    unit: TimeUnit;
+    groupBy: GroupDimension[];
+    filters: ReportFilters;
+    budget?: BudgetConfig | null;
+    billing?: BillingConfig;
+    // Latest analysis and when it ran, or null until one succeeds; the caller refreshes it
+    // as the logs change
+    getAnalysis: () => { analysis: SessionAnalysis; refreshedAt: Date } | null;
+    // Message of the last refresh if it failed: sent with 503 while there is no analysis,
+    // and shown on the dashboard over the last good one
+    getRefreshError?: () => string | null;
+}
+
+export interface ToolAggregateOptions {
+    // Default: 'day'
+    unit?: TimeUnit;
+    // Default: ['tool']
+    groupBy?: ToolGroupDimension[];
+    // Calls starting in [since, until) are included
+    since?: Date | null;
+    until?: Date | null;
+    repos?: string[] | null;
+    // Default: the built-in pricing table
+    pricingTable?: PricingTable;
+}
+
+export interface ToolAggregateRow {
+    dimensions: string[];
+    stats: ToolStats;
+}
+
+export interface ToolAggregation {
+    totals: ToolStats;
+    // In no particular order
+    rows: ToolAggregateRow[];
+}
+
+// Spending limits in USD; warnRatio flags buckets that reach that fraction of a limit
+export interface BudgetConfig {
+    daily: number | null;
+    monthly: number | null;
+    total: number | null;
+    warnRatio: number | null;
+}
+
+export type OutputFormat = 'table' | 'json' | 'csv' | 'markdown' | 'html';
+
+// Settings read from the cpusage config file; paths are resolved against the file's directory
+export interface CpusageConfig {
+    sessionDirs?: string[];
+    logDirs?: string[];
+    geminiDirs?: string[];
+    vscodeDirs?: string[];
+    unit?: TimeUnit;
+    pricing?: string;
+    // IANA time zone name, applied through TZ
+    timezone?: string;
+    tokenizer?: TokenizerMode;
+    // Machine or user label of the local logs
+    label?: string;
+    format?: OutputFormat;
+    budget: Partial<BudgetConfig>;
+    billing: Partial<BillingConfig>;
+}
+
+export type BudgetScope = 'daily' | 'monthly' | 'total';
+export type BudgetStatus = 'warn' | 'over';
+
+export interface BudgetViolation {
+    scope: BudgetScope;
+    // Day key, month key, or 'total'
+    period: string;
+    cost: number;
+    limit: number;
+    status: BudgetStatus;
+}
+
+export interface BudgetEvaluation {
+    config: BudgetConfig;
+    violations: BudgetViolation[];
+}
+
+export interface ForecastOptions {
+    // Default: the current time
+    now?: Date;
+    // Complete days before today used for the burn rates. Default: 28
+    lookbackDays?: number;
+    // Days of the recent burn rate. Default: 7
+    recentDays?: number;
+    budget?: BudgetConfig | null;
+}
+
+export interface ForecastBudget {
+    scope: 'monthly' | 'total';
+    limit: number;
+    spent: number;
+    // Zero once the limit is reached
+    remaining: number;
+    // At the recent burn rate; 0 when already exhausted, null when nothing is being spent
+    daysUntilExhausted: number | null;
+    // Day key of the projected exhaustion, or null
+    exhaustedOn: string | null;
+    // Whether the projected month-end cost exceeds a monthly limit; always false for total
+    projectedOver: boolean;
+}
+
+// Month-end projection of the cost; rates are USD per day over complete days
+export interface UsageForecast {
+    generatedAt: Date;
+    // Month key, e.g. '2026-10'
+    month: string;
+    monthToDate: number;
+    // Fractional days of the month elapsed and left
+    daysElapsed: number;
+    daysRemaining: number;
+    // Day keys of the gap-filled history behind the rates; null without a complete day of logs
+    history: { start: string; end: string; days: number } | null;
+    averageDailyCost: number;
+    recentDailyCost: number;
+    // Change of the fitted daily cost per day
+    trendSlope: number;
+    // Month-end cost from the trend, with a 95% band
+    projected: { low: number; expected: number; high: number };
+    budgets: ForecastBudget[];
+}
+
+// One --what-if repricing: every session, or only the sessions of the `from` model,
+// priced with the `model` pricing table entry
+export interface WhatIfScenario {
+    // e.g. 'gpt-5-mini' or 'claude-opus->claude-sonnet-4.5'
+    label: string;
+    // Normalized model name or prefix; null repricing all sessions
+    from: string | null;
+    model: string;
+}
+
+// Actual and hypothetical cost of a usage report row, one cost per scenario
+export interface WhatIfRow {
+    dimensions: string[];
+    actual: number;
+    hypothetical: number[];
+}
+
+export interface WhatIfComparison {
+    scenarios: WhatIfScenario[];
+    totals: { actual: number; hypothetical: number[] };
+    // In the order of the report rows
+    rows: WhatIfRow[];
+}
+
+// One side of a --compare report: sessions starting in [since, until)
+export interface ComparisonWindow {
+    since: Date;
+    until: Date;
+}
+
+// Stats of the two windows at the same bucket position. The keys are null past the end
+// of the window with fewer buckets, whose stats are then empty.
+export interface ComparisonRow {
+    period: string | null;
+    baselinePeriod: string | null;
+    current: DailyStats;
+    baseline: DailyStats;
+}
+
+export interface ModelComparisonRow {
+    model: string;
+    current: DailyStats;
+    baseline: DailyStats;
+}
+
+// Period-over-period change of the current window against a baseline window of equal length
+export interface PeriodComparison {
+    unit: TimeUnit;
+    current: ComparisonWindow;
+    baseline: ComparisonWindow;
+    totals: { current: DailyStats; baseline: DailyStats };
+    // In bucket order
+    rows: ComparisonRow[];
+    // Largest absolute cost change first
+    models: ModelComparisonRow[];
+}
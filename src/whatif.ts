@@ -0,0 +1,111 @@
+import type { PricingTable, SessionModelUsage, SessionRecord, UsageReport, WhatIfComparison, WhatIfScenario } from './types.js';
+import { calculateCost, normalizeModelName, resolvePricingKey } from './pricing.js';
+import { buildUsageReport } from './report.js';
+
+// Parse a comma-separated --what-if list. Each item is a scenario: a model that prices every
+// session, or '<from>:<to>' pricing only the responses of the <from> model (or model prefix) as <to>
+export function parseWhatIf(value: string, pricingTable: PricingTable): WhatIfScenario[] {
+    const items = value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+    if (items.length === 0) {
+        throw new Error(`Invalid what-if: ${value}. Expected a model or <from>:<to>, e.g. claude-sonnet-4.5 or claude-opus:claude-sonnet-4.5.`);
+    }
+
+    return items.map(item => {
+        const separator = item.indexOf(':');
+        const fromArg = separator === -1 ? null : item.slice(0, separator).trim();
+        const modelArg = separator === -1 ? item : item.slice(separator + 1).trim();
+
+        const from = fromArg === null ? null : normalizeModelName(fromArg.split('/').pop() || fromArg);
+        if (from === '') {
+            throw new Error(`Invalid what-if: ${item}. The model before ':' is empty.`);
+        }
+        const model = resolvePricingKey(modelArg, pricingTable);
+        // Only an explicit 'default' may fall through to the default entry
+        if (model === 'default' && normalizeModelName(modelArg) !== 'default') {
+            throw new Error(`Unknown what-if model: ${modelArg}. Use a model from the pricing table (see --list-price).`);
+        }
+        return { label: from === null ? model : `${from}->${model}`, from, model };
+    });
+}
+
+// Raw model or pricing key equal to `from`, or starting with it on a name boundary
+function matchesModel(part: SessionModelUsage, from: string): boolean {
+    const names = [normalizeModelName(part.model.split('/').pop() || part.model), part.pricingKey];
+    return names.some(name => name.startsWith(from) && !/[a-z0-9]/.test(name.charAt(from.length)));
+}
+
+// A session's models under a scenario, so the responses of each model are repriced on their own;
+// models the scenario does not map keep their cost
+function repriceModels(session: SessionRecord, scenario: WhatIfScenario, pricingTable: PricingTable): SessionModelUsage[] {
+    return session.models.map(part => scenario.from !== null && !matchesModel(part, scenario.from)
+        ? part
+        : { ...part, cost: calculateCost(pricingTable[scenario.model], part) });
+}
+
+// Cost of a session's recorded tokens under a scenario
+export function repriceSession(session: SessionRecord, scenario: WhatIfScenario, pricingTable: PricingTable): number {
+    return repriceModels(session, scenario, pricingTable).reduce((sum, part) => sum + part.cost, 0);
+}
+
+// Hypothetical cost of every report row and of the totals, aggregated like the report itself
+export function buildWhatIf(report: UsageReport, sessions: SessionRecord[], scenarios: WhatIfScenario[], pricingTable: PricingTable): WhatIfComparison {
+    const rowKey = (dimensions: string[]) => dimensions.join('\u0000');
+    const hypotheticalReports = scenarios.map(scenario => {
+        const repriced = sessions.map(session => {
+            const models = repriceModels(session, scenario, pricingTable);
+            return { ...session, models, cost: models.reduce((sum, part) => sum + part.cost, 0) };
+        });
+        const { totals, rows } = buildUsageReport(repriced, {
+            unit: report.unit,
+            groupBy: report.dimensions,
+            rank: false,
+            filters: report.filters
+        });
+        return { total: totals.cost, costs: new Map(rows.map(row => [rowKey(row.dimensions), row.stats.cost])) };
+    });
+
+    return {
+        scenarios,
+        totals: {
+            actual: report.totals.cost,
+            hypothetical: hypotheticalReports.map(hypothetical => hypothetical.total)
+        },
+        rows: report.rows.map(({ dimensions, stats }) => ({
+            dimensions,
+            actual: stats.cost,
+            hypothetical: hypotheticalReports.map(hypothetical => hypothetical.costs.get(rowKey(dimensions)) ?? 0)
+        }))
+    };
+}
+
+// Hypothetical cost and its change from the actual cost; deltaPercent is null without an actual cost
+function toJsonDelta(actual: number, cost: number) {
+    return {
+        cost: Number(cost.toFixed(4)),
+        delta: Number((cost - actual).toFixed(4)),
+        deltaPercent: actual > 0 ? Number(((cost - actual) / actual * 100).toFixed(2)) : null
+    };
+}
+
+// `whatIf` object of the `--format json` envelope
+export function toJsonWhatIf(comparison: WhatIfComparison) {
+    const { actual, hypothetical } = comparison.totals;
+    return {
+        actual: Number(actual.toFixed(4)),
+        scenarios: comparison.scenarios.map((scenario, index) => ({
+            label: scenario.label,
+            from: scenario.from,
+            model: scenario.model,
+            ...toJsonDelta(actual, hypothetical[index])
+        }))
+    };
+}
+
+// `whatIf` list of a JSON report row
+export function toJsonWhatIfRow(comparison: WhatIfComparison, rowIndex: number) {
+    const { actual, hypothetical } = comparison.rows[rowIndex];
+    return comparison.scenarios.map((scenario, index) => ({
+        label: scenario.label,
+        ...toJsonDelta(actual, hypothetical[index])
+    }));
+}